@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { JobManager } from '@/lib/jobs/jobManager'
+import { jobErrorResponse } from '@/lib/jobs/responses'
+import { JobEvent, isJobFinished, toJobSnapshot } from '@/lib/jobs/types'
+
+// 接続を維持するためのコメントを送る間隔（ミリ秒）
+const HEARTBEAT_INTERVAL = 15000
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * ジョブの進捗を Server-Sent Events で配信する。
+ * 各イベントは data 行に JSON（JobEvent）として送るため、EventSource 以外のクライアントからも読める。
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const manager = JobManager.getInstance()
+    const job = await manager.getJob(id)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    const encoder = new TextEncoder()
+    let cleanup = () => {}
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false
+        const send = (event: JobEvent) => {
+          if (closed) return
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+          if (event.type === 'finished') {
+            close()
+          }
+        }
+
+        const unsubscribe = manager.subscribe(id, send)
+        const heartbeat = setInterval(() => {
+          if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'))
+        }, HEARTBEAT_INTERVAL)
+
+        const close = () => {
+          if (closed) return
+          closed = true
+          clearInterval(heartbeat)
+          unsubscribe()
+          controller.close()
+        }
+        cleanup = close
+        request.signal.addEventListener('abort', close)
+
+        // 途中から接続したクライアントのために、現在の状態を最初に送る
+        send({ type: 'snapshot', job: toJobSnapshot(job) })
+        if (isJobFinished(job)) {
+          send({ type: 'finished', job: toJobSnapshot(job) })
+        }
+      },
+      cancel() {
+        cleanup()
+      }
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    })
+  } catch (error) {
+    return jobErrorResponse(error)
+  }
+}
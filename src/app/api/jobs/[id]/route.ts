@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { JobManager } from '@/lib/jobs/jobManager'
+import { jobErrorResponse } from '@/lib/jobs/responses'
+import { toJobSnapshot } from '@/lib/jobs/types'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const job = await JobManager.getInstance().getJob(id)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+    return NextResponse.json(toJobSnapshot(job))
+  } catch (error) {
+    return jobErrorResponse(error)
+  }
+}
+
+// ジョブを中止し、保存している音声と結果を削除する
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    await JobManager.getInstance().deleteJob(id)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return jobErrorResponse(error)
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_UPLOAD_BYTES, getUploadFilename } from '@/utils/audioEncoding'
+import { JobManager } from '@/lib/jobs/jobManager'
+import { jobErrorResponse } from '@/lib/jobs/responses'
+import { toJobSnapshot } from '@/lib/jobs/types'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// セグメントの音声を受け取り、サーバー側のキューに追加する
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const formData = await request.formData()
+    const audioFile = formData.get('file') as File | null
+
+    if (!audioFile) {
+      return NextResponse.json({ error: 'No audio file provided' }, { status: 400 })
+    }
+    if (audioFile.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `File size too large. Maximum size is ${MAX_UPLOAD_BYTES / 1024 / 1024}MB` },
+        { status: 413 }
+      )
+    }
+
+    const job = await JobManager.getInstance().addSegment(id, {
+      index: Number(formData.get('index')),
+      startTime: Number(formData.get('startTime')),
+      endTime: Number(formData.get('endTime')),
+      audio: audioFile,
+      filename: getUploadFilename(audioFile, audioFile.name),
+      level: formData.has('level') ? Number(formData.get('level')) : undefined
+    })
+    return NextResponse.json(toJobSnapshot(job), { status: 202 })
+  } catch (error) {
+    return jobErrorResponse(error)
+  }
+}
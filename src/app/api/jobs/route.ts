@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { JobManager } from '@/lib/jobs/jobManager'
+import { jobErrorResponse } from '@/lib/jobs/responses'
+import { CreateJobRequest, toJobSnapshot } from '@/lib/jobs/types'
+
+// ジョブを作成する。セグメントは /api/jobs/[id]/segments に順次アップロードする
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as CreateJobRequest
+    const job = await JobManager.getInstance().createJob(body)
+    return NextResponse.json(toJobSnapshot(job), { status: 201 })
+  } catch (error) {
+    return jobErrorResponse(error)
+  }
+}
@@ -1,92 +1,151 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { MAX_UPLOAD_BYTES, getUploadFilename } from '@/utils/audioEncoding'
+import { ProviderError, TranscriptionProviderInfo, getTranscriptionProvider, resolveModelName } from '@/lib/providers'
+import { getServerTranscriptionCache } from '@/lib/cache/transcriptionCache'
+import type { TranscriptionResult, TranscriptionTask } from '@/utils/apiUtils'
+import { isAbortError } from '@/utils/abortUtils'
+import { parseRetryAfter } from '@/utils/rateLimiter'
+import { createCacheKey } from '@/utils/transcriptionCache'
+import { TranscriptionErrorBody, TranscriptionErrorCode, isRetryableCode } from '@/utils/transcriptionErrors'
 
-const GROQ_API_KEY = process.env.GROQ_API_KEY
-const GROQ_API_URL = 'https://api.groq.com/openai/v1/audio/transcriptions'
+// クライアントが接続を切った場合のステータス（レスポンスは届かない）
+const CLIENT_CLOSED_REQUEST = 499
+// キャッシュの結果を返したかどうか（hit / miss）
+const CACHE_HEADER = 'x-transcription-cache'
 
-export async function POST(request: NextRequest) {
+// クライアントが、モデルを選べるか（予備のモデルで処理し直すか）を決めるために使う
+export async function GET() {
   try {
-    if (!GROQ_API_KEY) {
-      console.error('GROQ_API_KEY is not configured')
-      return NextResponse.json(
-        { error: 'Groq API key is not configured. Please set GROQ_API_KEY environment variable in Vercel.' },
-        { status: 500 }
-      )
+    const provider = getTranscriptionProvider()
+    const info: TranscriptionProviderInfo = {
+      id: provider.id,
+      label: provider.label,
+      supportsModelSelection: provider.supportsModelSelection,
+      defaultModel: provider.defaultModel,
+      translationModel: provider.translationModel
+    }
+    return NextResponse.json(info)
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      return errorResponse(error.code, error.status, error.message)
     }
+    console.error('Provider error:', error)
+    return errorResponse('INTERNAL', 500, 'Internal server error. Please try again later.')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  // 上流のレート制限ヘッダーをそのまま返し、クライアントが送信間隔を調整できるようにする
+  let rateLimitHeaders: Record<string, string> = {}
+
+  try {
+    const provider = getTranscriptionProvider()
 
     const formData = await request.formData()
     const audioFile = formData.get('file') as File
     const language = formData.get('language') as string || 'ja'
-    const model = formData.get('model') as string || 'whisper-large-v3-turbo'
+    // モデルを選べないプロバイダーでは、指定されたモデルを使わない（キャッシュのキーにも含めない）
+    const model = provider.supportsModelSelection ? formData.get('model') as string || undefined : undefined
+    const prompt = formData.get('prompt') as string || undefined
+    const task = formData.get('task') === 'translate' ? 'translate' : 'transcribe'
 
     if (!audioFile) {
-      return NextResponse.json(
-        { error: 'No audio file provided' },
-        { status: 400 }
-      )
+      return errorResponse('INVALID_REQUEST', 400, 'No audio file provided')
     }
 
     // ファイルサイズチェック（Vercelの制限を考慮）
-    const maxSize = 25 * 1024 * 1024 // 25MB（Vercelの推奨制限）
-    if (audioFile.size > maxSize) {
-      return NextResponse.json(
-        { error: `File size too large. Maximum size is ${maxSize / 1024 / 1024}MB` },
-        { status: 400 }
+    if (audioFile.size > MAX_UPLOAD_BYTES) {
+      return errorResponse(
+        'PAYLOAD_TOO_LARGE',
+        413,
+        `File size too large. Maximum size is ${MAX_UPLOAD_BYTES / 1024 / 1024}MB`
       )
     }
 
-    console.log(`Processing audio file: ${audioFile.name}, size: ${audioFile.size} bytes`)
-
-    // Groq APIに送信するFormDataを作成
-    const groqFormData = new FormData()
-    groqFormData.append('file', audioFile)
-    groqFormData.append('model', model)
-    groqFormData.append('language', language)
-    groqFormData.append('response_format', 'verbose_json')
-    groqFormData.append('timestamp_granularities[]', 'word')
-
-    const response = await fetch(GROQ_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${GROQ_API_KEY}`,
-      },
-      body: groqFormData,
-    })
+    // 拡張子で形式が判定されるため、ファイル名とMIMEタイプを揃える
+    const filename = getUploadFilename(audioFile, audioFile.name)
+    console.log(`Processing audio file: ${filename} (${audioFile.type}), size: ${audioFile.size} bytes, provider: ${provider.label}, task: ${task}`)
+
+    // 同じ音声・同じ条件の結果があれば上流に送らずに返す
+    // （プロバイダーや既定のモデルが変われば結果も変わるため、実際に使うモデル名をキーに含める）
+    const cache = getServerTranscriptionCache()
+    const cacheKey = cache
+      ? await createCacheKey(audioFile, {
+        provider: provider.id,
+        model: resolveModelName(provider, model, task),
+        language,
+        prompt,
+        task
+      })
+      : undefined
+    const cached = cacheKey ? await cache!.get(cacheKey) : undefined
+    if (cached) {
+      console.log(`Transcription cache hit: ${cacheKey}`)
+      return NextResponse.json(toResponseBody(cached, task), { headers: { [CACHE_HEADER]: 'hit' } })
+    }
 
-    if (!response.ok) {
-      const errorData = await response.text()
-      console.error('Groq API Error:', errorData)
-      
-      // より詳細なエラーメッセージ
-      let errorMessage = `Groq API error: ${response.status} ${response.statusText}`
-      if (response.status === 401) {
-        errorMessage = 'APIキーが無効です。Vercelの環境変数でGROQ_API_KEYを正しく設定してください。'
-      } else if (response.status === 429) {
-        errorMessage = 'レート制限に達しました。しばらく待ってから再試行してください。'
-      } else if (response.status === 413) {
-        errorMessage = 'ファイルサイズが大きすぎます。25MB以下のファイルをご利用ください。'
+    const result = await provider.transcribe({
+      file: audioFile,
+      filename,
+      language: language === 'auto' ? undefined : language,
+      model,
+      prompt,
+      task,
+      // ブラウザ側で中断されたら上流のリクエストも中断し、無駄にクォータを使わない
+      signal: request.signal,
+      onRateLimit: headers => {
+        rateLimitHeaders = headers
       }
-      
-      return NextResponse.json(
-        { error: errorMessage },
-        { status: response.status }
-      )
+    })
+
+    if (cacheKey) {
+      await cache!.set(cacheKey, result)
     }
 
-    const result = await response.json()
-    
-    return NextResponse.json({
-      text: result.text,
-      segments: result.segments || [],
-      words: result.words || [],
-      language: result.language,
-      duration: result.duration
+    return NextResponse.json(toResponseBody(result, task), {
+      headers: cacheKey ? { ...rateLimitHeaders, [CACHE_HEADER]: 'miss' } : rateLimitHeaders
     })
 
   } catch (error) {
+    if (isAbortError(error) || request.signal.aborted) {
+      console.log('Transcription aborted by client')
+      return errorResponse('ABORTED', CLIENT_CLOSED_REQUEST, 'Request aborted')
+    }
+
+    if (error instanceof ProviderError) {
+      console.error('Provider error:', error.message)
+      return errorResponse(error.code, error.status, error.message, rateLimitHeaders)
+    }
+
     console.error('Transcription error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error. Please try again later.' },
-      { status: 500 }
-    )
+    return errorResponse('INTERNAL', 500, 'Internal server error. Please try again later.')
+  }
+}
+
+function toResponseBody(result: TranscriptionResult, task: TranscriptionTask) {
+  return {
+    text: result.text,
+    segments: result.segments,
+    words: result.words,
+    language: result.language,
+    duration: result.duration,
+    task: result.task ?? task,
+    model: result.model
+  }
+}
+
+// エラーは { error: TranscriptionErrorBody } の形で返す
+function errorResponse(
+  code: TranscriptionErrorCode,
+  status: number,
+  message: string,
+  headers: Record<string, string> = {}
+) {
+  const body: TranscriptionErrorBody = {
+    code,
+    retryable: isRetryableCode(code),
+    retryAfterMs: parseRetryAfter(headers['retry-after']),
+    message
   }
-}
\ No newline at end of file
+  return NextResponse.json({ error: body }, { status, headers })
+}
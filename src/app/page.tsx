@@ -2,41 +2,97 @@
 
 import React, { useState, useCallback } from 'react'
 import AudioUploader from '@/components/AudioUploader'
+import AudioRecorder from '@/components/AudioRecorder'
+import JobResume from '@/components/JobResume'
 import AudioProcessor from '@/components/AudioProcessor'
 import TranscriptionDisplay from '@/components/TranscriptionDisplay'
+import { Button } from '@/components/ui/button'
 import { TranscriptionResult } from '@/utils/apiUtils'
+import { AudioProcessor as AudioUtil } from '@/utils/audioUtils'
 import { ExportUtils } from '@/utils/exportUtils'
+import { formatFileSizeLimit, getFormatLabels } from '@/utils/mediaFormats'
+
+type InputMode = 'file' | 'microphone'
 
 export default function Home() {
+  const [inputMode, setInputMode] = useState<InputMode>('file')
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [recordedFile, setRecordedFile] = useState<File | null>(null)
+  const [resumedFileName, setResumedFileName] = useState<string | null>(null)
   const [transcriptionResult, setTranscriptionResult] = useState<TranscriptionResult | null>(null)
+  // 表示中の結果がファイルの文字起こしの結果か（セグメントを処理し直しても変わらない）。失敗したセグメントの再試行の差し込み先を決める
+  const [isProcessorResult, setIsProcessorResult] = useState(false)
   const [isProcessing, setIsProcessing] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // 文字起こしと結果の画面（セグメントの再処理）で、デコード済みの音声を共有する
+  const [audioUtil] = useState(() => new AudioUtil())
+  const sourceFile = inputMode === 'file' ? selectedFile : recordedFile
 
   const handleFileSelect = useCallback((file: File) => {
     setSelectedFile(file)
     setTranscriptionResult(null)
+    setIsProcessorResult(false)
     setError(null)
   }, [])
 
   const handleTranscriptionComplete = useCallback((result: TranscriptionResult) => {
     setTranscriptionResult(result)
+    setIsProcessorResult(true)
     setIsProcessing(false)
   }, [])
 
+  const handleRecordingStart = useCallback(() => {
+    setRecordedFile(null)
+    setTranscriptionResult(null)
+    setIsProcessorResult(false)
+    setError(null)
+    setIsProcessing(true)
+  }, [])
+
+  // 録音中やサーバー処理中は、届いたセグメントの結果をその都度表示する
+  const handlePartialResult = useCallback((result: TranscriptionResult) => {
+    setTranscriptionResult(result)
+  }, [])
+
+  const handleRecordingComplete = useCallback((file: File, result: TranscriptionResult) => {
+    setRecordedFile(file)
+    setTranscriptionResult(result)
+    setIsProcessing(false)
+  }, [])
+
+  // 前回サーバーで処理していたジョブの結果
+  const handleResumedResult = useCallback((result: TranscriptionResult, fileName: string) => {
+    setResumedFileName(fileName)
+    setTranscriptionResult(result)
+    setIsProcessorResult(false)
+  }, [])
+
+  // 結果の画面でセグメントを処理し直した結果
+  const handleResultChange = useCallback((update: (result: TranscriptionResult) => TranscriptionResult) => {
+    setTranscriptionResult(prev => prev && update(prev))
+  }, [])
+
   const handleError = useCallback((errorMessage: string) => {
     setError(errorMessage)
     setIsProcessing(false)
   }, [])
 
   const handleExport = useCallback((format: string, data: string) => {
-    if (!selectedFile) return
+    const sourceName = sourceFile?.name ?? resumedFileName
+    if (!sourceName) return
 
-    const filename = ExportUtils.generateFilename(selectedFile.name, format)
+    const filename = ExportUtils.generateFilename(sourceName, format)
     const mimeType = ExportUtils.getMimeType(format)
     
     ExportUtils.downloadFile(data, filename, mimeType)
-  }, [selectedFile])
+  }, [sourceFile, resumedFileName])
+
+  const handleInputModeChange = useCallback((mode: InputMode) => {
+    setInputMode(mode)
+    setSelectedFile(null)
+    setTranscriptionResult(null)
+    setError(null)
+  }, [])
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
@@ -80,18 +136,54 @@ export default function Home() {
 
         {/* メインコンテンツ */}
         <div className="space-y-6">
+          {/* 前回のサーバー処理 */}
+          <JobResume onResult={handleResumedResult} />
+
+          {/* 入力方法の切り替え */}
+          <div className="flex justify-center gap-2">
+            <Button
+              variant={inputMode === 'file' ? 'default' : 'outline'}
+              onClick={() => handleInputModeChange('file')}
+              disabled={isProcessing}
+            >
+              ファイル
+            </Button>
+            <Button
+              variant={inputMode === 'microphone' ? 'default' : 'outline'}
+              onClick={() => handleInputModeChange('microphone')}
+              disabled={isProcessing}
+            >
+              マイク録音
+            </Button>
+          </div>
+
           {/* ファイルアップロード */}
-          <AudioUploader
-            onFileSelect={handleFileSelect}
-            isProcessing={isProcessing}
-          />
+          {inputMode === 'file' && (
+            <AudioUploader
+              onFileSelect={handleFileSelect}
+              isProcessing={isProcessing}
+            />
+          )}
+
+          {/* マイク録音 */}
+          {inputMode === 'microphone' && (
+            <AudioRecorder
+              onRecordingStart={handleRecordingStart}
+              onPartialResult={handlePartialResult}
+              onRecordingComplete={handleRecordingComplete}
+              onError={handleError}
+            />
+          )}
 
           {/* 音声処理 */}
-          {selectedFile && (
+          {inputMode === 'file' && selectedFile && (
             <AudioProcessor
               file={selectedFile}
               onTranscriptionComplete={handleTranscriptionComplete}
+              onPartialResult={handlePartialResult}
               onError={handleError}
+              audioUtil={audioUtil}
+              baseResult={isProcessorResult ? transcriptionResult : null}
             />
           )}
 
@@ -100,6 +192,9 @@ export default function Home() {
             <TranscriptionDisplay
               result={transcriptionResult}
               onExport={handleExport}
+              sourceFile={sourceFile}
+              audioUtil={audioUtil}
+              onResultChange={handleResultChange}
             />
           )}
         </div>
@@ -107,7 +202,8 @@ export default function Home() {
         {/* フッター */}
         <footer className="mt-16 text-center text-sm text-gray-500">
           <div className="space-y-2">
-            <p>対応形式: MP3, WAV, M4A, OGG, FLAC（最大100MB）</p>
+            <p>対応形式: {getFormatLabels('audio')}（最大{formatFileSizeLimit('audio')}）</p>
+            <p>動画: {getFormatLabels('video')}（最大{formatFileSizeLimit('video')}、音声トラックを文字起こし）</p>
             <p>エクスポート形式: TXT, SRT, VTT, JSON</p>
             <div className="flex justify-center items-center space-x-4 mt-4">
               <span>Powered by</span>
@@ -1,52 +1,166 @@
 'use client'
 
-import React, { useState, useCallback, useRef, useEffect } from 'react'
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
-import { AudioProcessor as AudioUtil, AudioSplitOptions } from '@/utils/audioUtils'
-import { GroqAPIClient, TranscriptionResult, TranscriptionOptions } from '@/utils/apiUtils'
+import WaveformView from '@/components/WaveformView'
+import { AudioProcessor as AudioUtil, AudioRange, AudioSplitOptions, SplitStrategy, getExtractOptions } from '@/utils/audioUtils'
+import {
+  AUDIO_CONTAINERS,
+  DEFAULT_ENCODING_PROFILE,
+  DEFAULT_SEGMENT_CONTAINER,
+  ENCODING_PROFILES,
+  EncodingProfileId,
+  SegmentContainer
+} from '@/utils/audioEncoding'
+import {
+  DEFAULT_PREPROCESSING,
+  NORMALIZATION_LABELS,
+  NormalizationMode,
+  PreprocessingOptions,
+  isPreprocessingEnabled
+} from '@/utils/audioPreprocessing'
+import {
+  GroqAPIClient,
+  MultiSegmentOptions,
+  SegmentTranscriptionResult,
+  TranscriptionResult,
+  TranscriptionOptions,
+  TranscriptionSegmentInput,
+  TranscriptionTask
+} from '@/utils/apiUtils'
+import { isAbortError } from '@/utils/abortUtils'
+import { getErrorMessage } from '@/utils/transcriptionErrors'
+import { buildPrompt, loadGlossary, parseGlossary, saveGlossary } from '@/utils/promptUtils'
+import { TranscriptionCache } from '@/utils/transcriptionCache'
+import { DEFAULT_FALLBACK_MODELS, MODEL_CHOICES, parseModelList } from '@/utils/modelLadder'
+import {
+  DEFAULT_HALLUCINATION_FILTER,
+  HallucinationFilterMode,
+  applyHallucinationFilter,
+  loadHallucinationBlacklist,
+  parseHallucinationBlacklist,
+  saveHallucinationBlacklist
+} from '@/utils/hallucinationFilter'
+import { JobAPIClient, JobEvent, JobSnapshot, clearActiveJob, saveActiveJob } from '@/utils/jobClient'
+import { WaveformPeaks, computePeaks } from '@/utils/waveformUtils'
 
 interface AudioProcessorProps {
   file: File
   onTranscriptionComplete: (result: TranscriptionResult) => void
+  onPartialResult?: (result: TranscriptionResult) => void
   onError: (error: string) => void
+  audioUtil?: AudioUtil // 結果の画面と共有し、デコード済みの音声を使い回す
+  baseResult?: TranscriptionResult | null // このコンポーネントの結果を結果の画面で編集したもの。失敗したセグメントの再試行はこちらに差し込む
 }
 
+// browser: ブラウザから直接文字起こし, server: サーバーのジョブとして処理
+type ProcessingMode = 'browser' | 'server'
+
 interface ProcessingState {
   stage: 'idle' | 'splitting' | 'transcribing' | 'merging' | 'completed' | 'error'
   progress: number
   message: string
   segmentsTotal: number
   segmentsProcessed: number
+  segmentsEncoded: number
+  segmentsCached: number // キャッシュの結果を使い、送信しなかったセグメント
 }
 
-export default function AudioProcessor({ file, onTranscriptionComplete, onError }: AudioProcessorProps) {
-  const [processing, setProcessing] = useState<ProcessingState>({
-    stage: 'idle',
-    progress: 0,
-    message: '',
-    segmentsTotal: 0,
-    segmentsProcessed: 0
-  })
+// 波形表示に使う区間の数
+const WAVEFORM_BUCKETS = 2000
+// 設定や選択範囲の変更が続く間は境界を計算しない（ミリ秒）
+const BOUNDARY_PLAN_DELAY = 300
+
+// 出力される言語の表示名
+const LANGUAGE_LABELS: Record<string, string> = {
+  ja: '日本語',
+  en: '英語'
+}
+
+const IDLE_PROCESSING_STATE: ProcessingState = {
+  stage: 'idle',
+  progress: 0,
+  message: '',
+  segmentsTotal: 0,
+  segmentsProcessed: 0,
+  segmentsEncoded: 0,
+  segmentsCached: 0
+}
+
+export default function AudioProcessor({
+  file,
+  onTranscriptionComplete,
+  onPartialResult,
+  onError,
+  audioUtil,
+  baseResult
+}: AudioProcessorProps) {
+  const [processing, setProcessing] = useState<ProcessingState>(IDLE_PROCESSING_STATE)
   
   const [settings, setSettings] = useState({
     segmentDuration: 20, // 20秒（デフォルト）
     overlap: 1, // 1秒のオーバーラップ
-    language: 'ja',
-    concurrency: 3 // 3並列（デフォルト）
+    splitStrategy: 'silence' as SplitStrategy, // 無音位置で分割（デフォルト）
+    encodingProfile: DEFAULT_ENCODING_PROFILE as EncodingProfileId, // 16kHz モノラル
+    container: DEFAULT_SEGMENT_CONTAINER as SegmentContainer, // FLAC（可逆圧縮）
+    preprocessing: DEFAULT_PREPROCESSING as PreprocessingOptions, // 前処理なし（デフォルト）
+    model: '', // 空の場合はサーバーの既定のモデル
+    fallbackModels: DEFAULT_FALLBACK_MODELS.join(', '), // 品質が低いセグメントを処理し直すモデル（カンマ区切り）
+    language: 'ja', // 元の音声の言語
+    task: 'transcribe' as TranscriptionTask, // translate の場合は英語に翻訳する
+    concurrency: 3, // 3並列（デフォルト）
+    processingMode: 'browser' as ProcessingMode,
+    chainContext: false, // 前のセグメントの末尾をプロンプトに含める（1つずつ処理）
+    useCache: true, // 同じ音声・同じ条件の結果を再利用する
+    hallucinationFilter: DEFAULT_HALLUCINATION_FILTER.mode as HallucinationFilterMode // 幻聴の疑いがあるセグメントに印を付ける
   })
+  // 用語集（1行に1語）。ブラウザに保存して次回も使う
+  const [glossaryText, setGlossaryText] = useState('')
+  const glossary = useMemo(() => parseGlossary(glossaryText), [glossaryText])
+  // 既知の幻聴フレーズ（1行に1つ）。用語集と同じくブラウザに保存する
+  const [blacklistText, setBlacklistText] = useState('')
+
+  const [waveform, setWaveform] = useState<WaveformPeaks | null>(null)
+  const [waveformError, setWaveformError] = useState<string | null>(null)
+  const [range, setRange] = useState<AudioRange | null>(null)
+  const [boundaries, setBoundaries] = useState<AudioRange[]>([])
 
   const [isClient, setIsClient] = useState(false)
   const audioUtilRef = useRef<AudioUtil | null>(null)
   const apiClientRef = useRef<GroqAPIClient | null>(null)
+  const jobClientRef = useRef<JobAPIClient | null>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
+  // 失敗したセグメントを再試行するときに差し込む先の結果
+  const [lastResult, setLastResult] = useState<TranscriptionResult | null>(null)
 
   // クライアントサイドでのみ初期化
   useEffect(() => {
     setIsClient(true)
+    setGlossaryText(loadGlossary())
+    setBlacklistText(loadHallucinationBlacklist())
+  }, [])
+
+  const handleGlossaryChange = useCallback((text: string) => {
+    setGlossaryText(text)
+    saveGlossary(text)
+  }, [])
+
+  const handleBlacklistChange = useCallback((text: string) => {
+    setBlacklistText(text)
+    saveHallucinationBlacklist(text)
   }, [])
 
+  // 統合後の結果から、無音区間の定型句や繰り返しを見つけて印を付ける（または取り除く）
+  const filterHallucinations = useCallback((result: TranscriptionResult) => {
+    return applyHallucinationFilter(result, {
+      ...DEFAULT_HALLUCINATION_FILTER,
+      mode: settings.hallucinationFilter,
+      blacklist: parseHallucinationBlacklist(blacklistText)
+    })
+  }, [settings.hallucinationFilter, blacklistText])
+
   // ファイルサイズに基づく自動設定
   // useEffect(() => {
   //   if (file && isClient) {
@@ -74,12 +188,162 @@ export default function AudioProcessor({ file, onTranscriptionComplete, onError
     }
     
     if (!audioUtilRef.current) {
-      audioUtilRef.current = new AudioUtil()
+      audioUtilRef.current = audioUtil ?? new AudioUtil()
     }
     if (!apiClientRef.current) {
-      apiClientRef.current = new GroqAPIClient()
+      apiClientRef.current = new GroqAPIClient('/api', new TranscriptionCache())
+    }
+    if (!jobClientRef.current) {
+      jobClientRef.current = new JobAPIClient()
+    }
+  }, [isClient, audioUtil])
+
+  /**
+   * セグメントをサーバーのジョブにアップロードし、サーバー側での文字起こしと統合が終わるのを待つ。
+   * アップロード後はタブを閉じても処理が続き、再度開いたときに結果を表示できる。
+   */
+  const transcribeOnServer = useCallback(async (
+    segments: AsyncIterable<TranscriptionSegmentInput>,
+    getTotal: () => number,
+    options: TranscriptionOptions & Pick<MultiSegmentOptions, 'fallbackModels'>,
+    signal: AbortSignal
+  ): Promise<{ result: TranscriptionResult; successCount: number }> => {
+    const jobClient = jobClientRef.current!
+    const apiClient = apiClientRef.current!
+    const following = new AbortController()
+    const stopFollowing = () => following.abort()
+    signal.addEventListener('abort', stopFollowing, { once: true })
+    const finishedSegments = new Set<number>()
+    const partialResults = new Map<number, SegmentTranscriptionResult>()
+    let jobId: string | null = null
+    let finished: Promise<JobSnapshot> | null = null
+
+    // サーバーから届いたイベントで進捗と途中結果を更新する
+    const handleEvent = (event: JobEvent) => {
+      if (event.type === 'snapshot' || event.type === 'finished') {
+        event.job.segments
+          .filter(segment => segment.status === 'succeeded' || segment.status === 'failed')
+          .forEach(segment => finishedSegments.add(segment.index))
+      } else if (event.type === 'succeeded') {
+        finishedSegments.add(event.index)
+        partialResults.set(event.index, {
+          ...event.result,
+          index: event.index,
+          startTime: event.startTime,
+          endTime: event.endTime
+        })
+        onPartialResult?.(apiClient.mergeTranscriptionResults(Array.from(partialResults.values())))
+      } else if (event.type === 'failed') {
+        finishedSegments.add(event.index)
+      }
+
+      const total = getTotal()
+      const completed = finishedSegments.size
+      setProcessing(prev => ({
+        ...prev,
+        segmentsProcessed: completed,
+        progress: total > 0 ? (completed / total) * 100 : 0,
+        message: event.type === 'retrying'
+          ? `セグメント ${event.index + 1} を再試行しています（${getErrorMessage(event.code)}）`
+          : `サーバーで文字起こし中: ${completed}/${total} セグメント完了`
+      }))
     }
-  }, [isClient])
+
+    try {
+      for await (const segment of segments) {
+        if (!jobId) {
+          const job = await jobClient.createJob({ fileName: file.name, totalSegments: getTotal(), options }, signal)
+          jobId = job.id
+          saveActiveJob({ id: job.id, fileName: file.name })
+          console.log('サーバージョブ作成:', job.id)
+          finished = jobClient.followJob(job.id, handleEvent, following.signal)
+          // 送信中に失敗した場合の未処理エラーを防ぐ（結果は送信後に待つ）
+          finished.catch(() => {})
+        }
+        await jobClient.uploadSegment(jobId, segment, 0, signal)
+      }
+
+      if (!jobId || !finished) {
+        throw new Error('音声ファイルの分割に失敗しました')
+      }
+
+      const job = await finished
+      clearActiveJob()
+
+      if (job.status !== 'completed' || !job.result) {
+        throw new Error(job.error || 'サーバーでの文字起こしに失敗しました')
+      }
+      return {
+        result: job.result,
+        successCount: job.segments.filter(segment => segment.status === 'succeeded').length
+      }
+    } catch (error) {
+      // 中断された場合はサーバー側のジョブも削除し、処理中の文字起こしを止める
+      if (signal.aborted && jobId) {
+        clearActiveJob()
+        jobClient.deleteJob(jobId).catch(deleteError => console.error('ジョブの削除に失敗:', deleteError))
+      }
+      throw error
+    } finally {
+      signal.removeEventListener('abort', stopFollowing)
+      following.abort()
+    }
+  }, [file, onPartialResult])
+
+  const splitOptions = useMemo<AudioSplitOptions>(() => ({
+    segmentDuration: settings.segmentDuration,
+    overlap: settings.overlap,
+    strategy: settings.splitStrategy,
+    encodingProfile: settings.encodingProfile,
+    container: settings.container,
+    range: range ?? undefined,
+    preprocessing: settings.preprocessing
+  }), [settings.segmentDuration, settings.overlap, settings.splitStrategy, settings.encodingProfile, settings.container, settings.preprocessing, range])
+
+  // ファイルが変わったらデコードして波形を表示する
+  useEffect(() => {
+    if (!file || !isClient) return
+    let cancelled = false
+    setWaveform(null)
+    setWaveformError(null)
+    setRange(null)
+    setBoundaries([])
+
+    initializeProcessors()
+    audioUtilRef.current!.decodeFile(file)
+      .then(buffer => {
+        if (!cancelled) setWaveform(computePeaks(buffer, WAVEFORM_BUCKETS))
+      })
+      .catch(error => {
+        console.error('波形の読み込みに失敗:', error)
+        if (!cancelled) setWaveformError(error instanceof Error ? error.message : '波形を表示できませんでした')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [file, isClient, initializeProcessors])
+
+  // 設定や選択範囲に合わせて、予定されるセグメント境界を求める
+  useEffect(() => {
+    if (!waveform) return
+    const abortController = new AbortController()
+
+    const timer = setTimeout(() => {
+      audioUtilRef.current!.planSegmentTimes(file, splitOptions, abortController.signal)
+        .then(planned => setBoundaries(planned))
+        .catch(error => {
+          if (isAbortError(error)) return
+          console.warn('セグメント境界の計算に失敗:', error)
+          setBoundaries([])
+        })
+    }, BOUNDARY_PLAN_DELAY)
+
+    return () => {
+      clearTimeout(timer)
+      abortController.abort()
+    }
+  }, [file, waveform, splitOptions])
 
   const startTranscription = useCallback(async () => {
     if (!file) return
@@ -93,108 +357,142 @@ export default function AudioProcessor({ file, onTranscriptionComplete, onError
       })
 
       initializeProcessors()
-      abortControllerRef.current = new AbortController()
+      setLastResult(null)
+      const abortController = new AbortController()
+      abortControllerRef.current = abortController
+      const { signal } = abortController
 
       // 1. 音声分割段階
       setProcessing({
+        ...IDLE_PROCESSING_STATE,
         stage: 'splitting',
-        progress: 0,
-        message: '音声ファイルを分割しています...',
-        segmentsTotal: 0,
-        segmentsProcessed: 0
+        message: '音声ファイルを分割しています...'
       })
 
-      const splitOptions: AudioSplitOptions = {
-        segmentDuration: settings.segmentDuration,
-        overlap: settings.overlap
-      }
-
       console.log('分割オプション:', splitOptions)
 
-      const segments = await audioUtilRef.current!.splitAudioFile(file, splitOptions)
-      
-      console.log('分割結果:', {
-        segmentsCount: segments.length,
-        segments: segments.map(s => ({
-          index: s.index,
-          duration: s.duration,
-          blobSize: s.blob.size
-        }))
-      })
-      
-      if (segments.length === 0) {
-        throw new Error('音声ファイルの分割に失敗しました')
-      }
-
-      setProcessing(prev => ({
-        ...prev,
-        stage: 'transcribing',
-        message: `${segments.length}個のセグメントを並列処理で文字起こししています...`,
-        segmentsTotal: segments.length,
-        progress: 0
-      }))
-
-      // 2. 並列文字起こし段階
+      // 2. 分割しながら並列文字起こし（エンコードできたセグメントから順に送信）
       const transcriptionOptions: TranscriptionOptions = {
-        language: settings.language
+        language: settings.language,
+        model: settings.model || undefined,
+        task: settings.task
       }
+      const fallbackModels = parseModelList(settings.fallbackModels)
 
-      const segmentData = segments.map(segment => ({
-        blob: segment.blob,
-        index: segment.index,
-        startTime: segment.startTime,
-        endTime: segment.endTime
-      }))
+      let segmentsTotal = 0
+      const segmentStream = audioUtilRef.current!.splitAudioFileStream(
+        file,
+        splitOptions,
+        (encoded, total) => {
+          segmentsTotal = total
+          setProcessing(prev => ({
+            ...prev,
+            stage: 'transcribing',
+            segmentsTotal: total,
+            segmentsEncoded: encoded,
+            message: prev.stage === 'transcribing'
+              ? prev.message
+              : `${total}個のセグメントを分割しながら並列処理で文字起こししています...`
+          }))
+        },
+        signal
+      )
 
       console.log('文字起こし開始:', {
-        segmentCount: segmentData.length,
         concurrency: settings.concurrency,
-        language: settings.language
+        language: settings.language,
+        task: settings.task,
+        glossary: glossary.length,
+        chainContext: settings.chainContext
       })
 
-      const results = await apiClientRef.current!.transcribeMultipleSegments(
-        segmentData,
-        transcriptionOptions,
-        (completed, total) => {
-          const progressPercent = (completed / total) * 100
-          console.log(`進捗: ${completed}/${total} (${progressPercent.toFixed(1)}%)`)
-          setProcessing(prev => ({
-            ...prev,
-            progress: progressPercent,
-            segmentsProcessed: completed,
-            message: `文字起こし進行中: ${completed}/${total} セグメント完了`
+      let mergedResult: TranscriptionResult
+      let successCount: number
+      let cachedCount = 0
+
+      if (settings.processingMode === 'server') {
+        const serverResult = await transcribeOnServer(segmentStream, () => segmentsTotal, {
+          ...transcriptionOptions,
+          // サーバーで処理する場合は用語集だけをプロンプトにする（前のセグメントの文脈は使えない）
+          prompt: buildPrompt(glossary),
+          fallbackModels
+        }, signal)
+        successCount = serverResult.successCount
+        mergedResult = serverResult.result
+      } else {
+        const outcomes = await apiClientRef.current!.transcribeMultipleSegments(
+          segmentStream,
+          { ...transcriptionOptions, glossary, chainContext: settings.chainContext, useCache: settings.useCache, fallbackModels },
+          (completed, _total, cached) => {
+            const progressPercent = segmentsTotal > 0 ? (completed / segmentsTotal) * 100 : 0
+            console.log(`進捗: ${completed}/${segmentsTotal} (${progressPercent.toFixed(1)}%)`)
+            setProcessing(prev => ({
+              ...prev,
+              progress: progressPercent,
+              segmentsProcessed: completed,
+              segmentsCached: cached,
+              message: `文字起こし進行中: ${completed}/${segmentsTotal} セグメント完了`
+            }))
+          },
+          settings.concurrency,
+          signal
+        )
+
+        if (segmentsTotal === 0) {
+          throw new Error('音声ファイルの分割に失敗しました')
+        }
+
+        const results = outcomes.flatMap(outcome => outcome.result ? [outcome.result] : [])
+        console.log('文字起こし結果:', {
+          successCount: results.length,
+          results: results.map(r => ({
+            index: r.index,
+            textLength: r.text.length,
+            segmentsCount: r.segments.length
           }))
-        },
-        settings.concurrency
-      )
+        })
+
+        // すべて失敗した場合は、原因が分かるよう最初のエラーを表示する
+        const firstError = outcomes.find(outcome => outcome.error)?.error
+        if (results.length === 0 && firstError) {
+          throw firstError
+        }
 
-      console.log('文字起こし結果:', {
-        successCount: results.length,
-        results: results.map(r => ({
-          index: r.index,
-          textLength: r.text.length,
-          segmentsCount: r.segments.length
+        // 3. 結果統合段階
+        setProcessing(prev => ({
+          ...prev,
+          stage: 'merging',
+          progress: 95,
+          message: '結果を統合しています...'
         }))
-      })
 
-      // 3. 結果統合段階
-      setProcessing(prev => ({
-        ...prev,
-        stage: 'merging',
-        progress: 95,
-        message: '結果を統合しています...'
-      }))
+        mergedResult = apiClientRef.current!.mergeOutcomes(outcomes)
+        successCount = results.length
+        cachedCount = outcomes.filter(outcome => outcome.cached).length
+      }
 
-      const mergedResult = apiClientRef.current!.mergeTranscriptionResults(results)
+      mergedResult = {
+        ...mergedResult,
+        metadata: {
+          ...(isPreprocessingEnabled(settings.preprocessing) ? { preprocessing: settings.preprocessing } : {}),
+          encodingProfile: settings.encodingProfile,
+          container: settings.container,
+          language: settings.language
+        }
+      }
+      mergedResult = filterHallucinations(mergedResult)
+      if (mergedResult.flagged?.length) {
+        console.log('幻聴の疑い:', mergedResult.flagged)
+      }
 
       // 4. 完了
-      const successCount = results.length
-      const totalSegments = segments.length
+      const totalSegments = segmentsTotal
       const failedCount = totalSegments - successCount
       
       console.log('処理完了:', {
         successCount,
         failedCount,
+        cachedCount,
         totalSegments,
         mergedTextLength: mergedResult.text.length
       })
@@ -203,48 +501,139 @@ export default function AudioProcessor({ file, onTranscriptionComplete, onError
       if (failedCount > 0) {
         completionMessage = `文字起こしが完了しました（${successCount}/${totalSegments} セグメント成功、${failedCount} セグメント失敗）`
       }
+      if (cachedCount > 0) {
+        completionMessage += `（${cachedCount} セグメントはキャッシュの結果を使用）`
+      }
 
       setProcessing({
         stage: 'completed',
         progress: 100,
         message: completionMessage,
-        segmentsTotal: segments.length,
-        segmentsProcessed: segments.length
+        segmentsTotal: totalSegments,
+        segmentsProcessed: totalSegments,
+        segmentsEncoded: totalSegments,
+        segmentsCached: cachedCount
       })
 
+      setLastResult(mergedResult)
       onTranscriptionComplete(mergedResult)
 
     } catch (error) {
+      // 中断した場合は stopTranscription で表示を戻しているため、エラーとして扱わない
+      if (isAbortError(error)) {
+        console.log('=== 音声処理を中断しました ===')
+        return
+      }
+
       console.error('=== 音声処理エラー ===', error)
       const errorMessage = error instanceof Error ? error.message : '予期しないエラーが発生しました'
       setProcessing({
+        ...IDLE_PROCESSING_STATE,
         stage: 'error',
-        progress: 0,
-        message: errorMessage,
-        segmentsTotal: 0,
-        segmentsProcessed: 0
+        message: errorMessage
       })
       onError(errorMessage)
     }
-  }, [file, settings, onTranscriptionComplete, onError, initializeProcessors])
+  }, [file, settings, glossary, splitOptions, onTranscriptionComplete, onError, initializeProcessors, transcribeOnServer, filterHallucinations])
+
+  /**
+   * 失敗したセグメントだけを元のファイルから切り出して再送信し、結果を既存の文字起こしに差し込む。
+   * 処理場所の設定にかかわらずブラウザから送信する。
+   */
+  const retryBase = baseResult ?? lastResult
+  const retryFailedSegments = useCallback(async () => {
+    const base = retryBase
+    if (!base?.gaps?.length) return
 
+    const gaps = base.gaps
+    initializeProcessors()
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    const { signal } = abortController
+
+    setProcessing({
+      ...IDLE_PROCESSING_STATE,
+      stage: 'transcribing',
+      segmentsTotal: gaps.length,
+      segmentsEncoded: gaps.length,
+      message: `失敗した${gaps.length}個のセグメントを再試行しています...`
+    })
+
+    try {
+      // 失敗した処理と同じ送信形式・前処理・言語で送り直す（設定を変えていても、差し込む結果に合わせる）
+      const segments = await audioUtilRef.current!.extractSegments(file, gaps, {
+        ...splitOptions,
+        ...getExtractOptions(base.metadata)
+      })
+      const apiClient = apiClientRef.current!
+      const outcomes = await apiClient.transcribeMultipleSegments(
+        segments,
+        // 失敗したセグメントは飛び飛びなので、前のセグメントの文脈は使わない
+        {
+          language: base.metadata?.language ?? settings.language,
+          model: settings.model || undefined,
+          task: base.task ?? 'transcribe',
+          glossary,
+          fallbackModels: parseModelList(settings.fallbackModels)
+        },
+        (completed, total) => setProcessing(prev => ({
+          ...prev,
+          progress: (completed / total) * 100,
+          segmentsProcessed: completed,
+          message: `失敗したセグメントを再試行中: ${completed}/${total} セグメント完了`
+        })),
+        settings.concurrency,
+        signal
+      )
+
+      const patches = outcomes.flatMap(outcome => outcome.result ? [outcome.result] : [])
+      const result = filterHallucinations(apiClient.spliceTranscriptionResults(base, patches))
+      const remaining = result.gaps?.length ?? 0
+      console.log('再試行結果:', { retried: gaps.length, succeeded: patches.length, remaining })
+
+      setProcessing({
+        stage: 'completed',
+        progress: 100,
+        message: remaining > 0
+          ? `再試行が完了しました（${patches.length}/${gaps.length} セグメント成功、${remaining} セグメント失敗）`
+          : '失敗したセグメントの文字起こしが完了しました！',
+        segmentsTotal: gaps.length,
+        segmentsProcessed: gaps.length,
+        segmentsEncoded: gaps.length,
+        segmentsCached: outcomes.filter(outcome => outcome.cached).length
+      })
+      setLastResult(result)
+      onTranscriptionComplete(result)
+    } catch (error) {
+      if (isAbortError(error)) {
+        console.log('=== 再試行を中断しました ===')
+        return
+      }
+
+      console.error('=== 再試行エラー ===', error)
+      const errorMessage = error instanceof Error ? error.message : '予期しないエラーが発生しました'
+      setProcessing({
+        ...IDLE_PROCESSING_STATE,
+        stage: 'error',
+        message: errorMessage
+      })
+      onError(errorMessage)
+    }
+  }, [file, retryBase, settings, glossary, splitOptions, onTranscriptionComplete, onError, initializeProcessors, filterHallucinations])
+
+  // 分割・送信待ちのセグメント・送信中のリクエスト・再試行の待機をすべて中断する
   const stopTranscription = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
+      abortControllerRef.current = null
     }
-    setProcessing({
-      stage: 'idle',
-      progress: 0,
-      message: '',
-      segmentsTotal: 0,
-      segmentsProcessed: 0
-    })
+    setProcessing(IDLE_PROCESSING_STATE)
   }, [])
 
 
   const getStageProgress = (): number => {
     switch (processing.stage) {
-      case 'splitting': return 10
+      case 'splitting': return 5
       case 'transcribing': return 10 + (processing.progress * 0.8)
       case 'merging': return 95
       case 'completed': return 100
@@ -287,6 +676,21 @@ export default function AudioProcessor({ file, onTranscriptionComplete, onError
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* 波形と分割位置 */}
+        {waveform ? (
+          <WaveformView
+            peaks={waveform}
+            boundaries={boundaries}
+            range={range}
+            onRangeChange={setRange}
+            disabled={processing.stage !== 'idle'}
+          />
+        ) : (
+          <div className="text-xs text-gray-500">
+            {waveformError ?? '波形を読み込んでいます...'}
+          </div>
+        )}
+
         {/* 設定 */}
         {processing.stage === 'idle' && (
           <div className="space-y-4">
@@ -325,7 +729,129 @@ export default function AudioProcessor({ file, onTranscriptionComplete, onError
               </div>
             </div>
             <div>
-              <label className="text-sm font-medium">言語</label>
+              <label className="text-sm font-medium">分割方式</label>
+              <select 
+                value={settings.splitStrategy}
+                onChange={(e) => setSettings(prev => ({ ...prev, splitStrategy: e.target.value as SplitStrategy }))}
+                className="w-full mt-1 p-2 border rounded"
+              >
+                <option value="silence">無音位置で分割（推奨）</option>
+                <option value="fixed">固定長で分割</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                無音位置で分割すると、セグメント境界で単語や文が途切れにくくなります
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">送信形式</label>
+              <select 
+                value={settings.encodingProfile}
+                onChange={(e) => setSettings(prev => ({ ...prev, encodingProfile: e.target.value as EncodingProfileId }))}
+                className="w-full mt-1 p-2 border rounded"
+              >
+                {Object.values(ENCODING_PROFILES).map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {ENCODING_PROFILES[settings.encodingProfile].description}
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">ファイル形式</label>
+              <select 
+                value={settings.container}
+                onChange={(e) => setSettings(prev => ({ ...prev, container: e.target.value as SegmentContainer }))}
+                className="w-full mt-1 p-2 border rounded"
+              >
+                {Object.values(AUDIO_CONTAINERS).map(container => (
+                  <option key={container.id} value={container.id}>{container.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                FLACは音質を保ったままアップロード量を減らせます
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">前処理</label>
+              <select 
+                value={settings.preprocessing.normalization}
+                onChange={(e) => setSettings(prev => ({
+                  ...prev,
+                  preprocessing: { ...prev.preprocessing, normalization: e.target.value as NormalizationMode }
+                }))}
+                className="w-full mt-1 p-2 border rounded"
+              >
+                {Object.entries(NORMALIZATION_LABELS).map(([mode, label]) => (
+                  <option key={mode} value={mode}>音量: {label}</option>
+                ))}
+              </select>
+              <div className="flex gap-4 mt-2 text-sm">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={settings.preprocessing.highPass}
+                    onChange={(e) => setSettings(prev => ({
+                      ...prev,
+                      preprocessing: { ...prev.preprocessing, highPass: e.target.checked }
+                    }))}
+                  />
+                  ハイパスフィルター（80Hz）
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={settings.preprocessing.noiseGate}
+                    onChange={(e) => setSettings(prev => ({
+                      ...prev,
+                      preprocessing: { ...prev.preprocessing, noiseGate: e.target.checked }
+                    }))}
+                  />
+                  ノイズゲート
+                </label>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                音量が小さい録音や、空調・ハムノイズが入った録音の精度改善に使います
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">処理場所</label>
+              <select 
+                value={settings.processingMode}
+                onChange={(e) => setSettings(prev => ({ ...prev, processingMode: e.target.value as ProcessingMode }))}
+                className="w-full mt-1 p-2 border rounded"
+              >
+                <option value="browser">ブラウザ（デフォルト）</option>
+                <option value="server">サーバー（タブを閉じても処理を継続）</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                サーバーで処理する場合、セグメントの送信が終わればブラウザを閉じても文字起こしが続きます
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">モデル</label>
+              <select 
+                value={settings.model}
+                onChange={(e) => setSettings(prev => ({ ...prev, model: e.target.value }))}
+                className="w-full mt-1 p-2 border rounded"
+              >
+                {MODEL_CHOICES.map(choice => (
+                  <option key={choice.id} value={choice.id}>{choice.label}</option>
+                ))}
+              </select>
+              <label className="text-xs text-gray-600 mt-2 block">品質が低いセグメントを処理し直すモデル（カンマ区切り、空欄で無効）</label>
+              <input
+                type="text"
+                value={settings.fallbackModels}
+                onChange={(e) => setSettings(prev => ({ ...prev, fallbackModels: e.target.value }))}
+                className="w-full mt-1 p-2 border rounded text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                繰り返しが多い・確信度が低い・音声があるのに文字が無いセグメントは、書いた順にモデルを変えて自動で処理し直します
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">音声の言語</label>
               <select 
                 value={settings.language}
                 onChange={(e) => setSettings(prev => ({ ...prev, language: e.target.value }))}
@@ -336,6 +862,90 @@ export default function AudioProcessor({ file, onTranscriptionComplete, onError
                 <option value="auto">自動検出</option>
               </select>
             </div>
+            <div>
+              <label className="text-sm font-medium">出力</label>
+              <select 
+                value={settings.task}
+                onChange={(e) => setSettings(prev => ({ ...prev, task: e.target.value as TranscriptionTask }))}
+                className="w-full mt-1 p-2 border rounded"
+              >
+                <option value="transcribe">文字起こし（音声と同じ言語）</option>
+                <option value="translate">英語に翻訳</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                出力される言語: {settings.task === 'translate'
+                  ? '英語'
+                  : settings.language === 'auto' ? '音声と同じ言語' : LANGUAGE_LABELS[settings.language] ?? settings.language}
+                {settings.task === 'translate' && '（翻訳では単語ごとのタイムスタンプは得られません）'}
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">用語集（1行に1語）</label>
+              <textarea
+                value={glossaryText}
+                onChange={(e) => handleGlossaryChange(e.target.value)}
+                rows={4}
+                placeholder={'例:\nGroq\nWhisper\n山田太郎'}
+                className="w-full mt-1 p-2 border rounded text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                固有名詞や専門用語をプロンプトとして渡し、表記を揃えます（{glossary.length}語、このブラウザに保存されます）
+              </p>
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={settings.chainContext}
+                  disabled={settings.processingMode === 'server'}
+                  onChange={(e) => setSettings(prev => ({ ...prev, chainContext: e.target.checked }))}
+                />
+                前のセグメントの文脈を引き継ぐ
+              </label>
+              <p className="text-xs text-gray-500 mt-1">
+                前のセグメントの末尾をプロンプトに含め、文のつながりや表記を揃えます。
+                順番に1つずつ処理するため時間がかかります（ブラウザで処理する場合のみ）
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">幻聴フィルター</label>
+              <select 
+                value={settings.hallucinationFilter}
+                onChange={(e) => setSettings(prev => ({ ...prev, hallucinationFilter: e.target.value as HallucinationFilterMode }))}
+                className="w-full mt-1 p-2 border rounded"
+              >
+                <option value="flag">印を付けて残す（デフォルト）</option>
+                <option value="remove">結果から取り除く</option>
+                <option value="off">使わない</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                無音区間で作られた定型句や、同じ文の繰り返しを見つけます。見つかったセグメントは取り除いた場合も結果画面に一覧で表示します
+              </p>
+              {settings.hallucinationFilter !== 'off' && (
+                <>
+                  <label className="text-xs text-gray-600 mt-2 block">既知の幻聴フレーズ（1行に1つ）</label>
+                  <textarea
+                    value={blacklistText}
+                    onChange={(e) => handleBlacklistChange(e.target.value)}
+                    rows={3}
+                    className="w-full mt-1 p-2 border rounded text-sm"
+                  />
+                </>
+              )}
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={settings.useCache}
+                  onChange={(e) => setSettings(prev => ({ ...prev, useCache: e.target.checked }))}
+                />
+                前回の結果を再利用する（キャッシュ）
+              </label>
+              <p className="text-xs text-gray-500 mt-1">
+                同じ音声を同じモデル・言語・プロンプトで処理したセグメントは送信せず、このブラウザに保存した結果を使います
+              </p>
+            </div>
           </div>
         )}
 
@@ -345,7 +955,7 @@ export default function AudioProcessor({ file, onTranscriptionComplete, onError
             <div className="flex justify-between items-center">
               <span className="text-sm font-medium">{processing.message}</span>
               <span className="text-sm text-gray-500">
-                {processing.stage === 'transcribing' && 
+                {processing.stage === 'transcribing' && processing.segmentsTotal > 0 &&
                   `${processing.segmentsProcessed}/${processing.segmentsTotal}`
                 }
               </span>
@@ -354,12 +964,21 @@ export default function AudioProcessor({ file, onTranscriptionComplete, onError
             
             {processing.stage === 'transcribing' && processing.segmentsTotal > 0 && (
               <div className="text-xs text-gray-500 space-y-1">
-                <div>推定残り時間: {Math.ceil((processing.segmentsTotal - processing.segmentsProcessed) / settings.concurrency * 3)}秒</div>
-                <div>レート制限対策: リクエスト間隔を2.5秒に調整中</div>
+                <div>分割済み: {processing.segmentsEncoded}/{processing.segmentsTotal} セグメント</div>
+                {processing.segmentsCached > 0 && (
+                  <div className="text-green-600">♻️ キャッシュから: {processing.segmentsCached} セグメント（送信を省略）</div>
+                )}
+                <div>推定残り時間: {Math.ceil((processing.segmentsTotal - processing.segmentsProcessed) / (settings.chainContext ? 1 : settings.concurrency) * 3)}秒</div>
+                {settings.processingMode === 'browser' && (
+                  <div>レート制限対策: サーバーの残り回数に合わせて送信間隔を調整中</div>
+                )}
                 {settings.concurrency > 3 && (
                   <div className="text-orange-600">⚠️ 並列数を下げるとレート制限エラーを減らせます</div>
                 )}
-                {processing.segmentsTotal > 50 && (
+                {settings.processingMode === 'server' && processing.segmentsEncoded === processing.segmentsTotal && (
+                  <div className="text-blue-600">📤 送信が完了しました。ブラウザを閉じても処理はサーバーで続きます。</div>
+                )}
+                {settings.processingMode === 'browser' && processing.segmentsTotal > 50 && (
                   <div className="text-blue-600">📊 長い音声ファイルの処理中です。ブラウザを閉じないでください。</div>
                 )}
               </div>
@@ -381,16 +1000,16 @@ export default function AudioProcessor({ file, onTranscriptionComplete, onError
             </Button>
           )}
           
+          {processing.stage === 'completed' && retryBase?.gaps && retryBase.gaps.length > 0 && (
+            <Button onClick={retryFailedSegments} className="w-full">
+              失敗した{retryBase.gaps.length}個のセグメントだけを再試行
+            </Button>
+          )}
+
           {processing.stage === 'completed' && (
             <Button 
               variant="outline" 
-              onClick={() => setProcessing({
-                stage: 'idle',
-                progress: 0,
-                message: '',
-                segmentsTotal: 0,
-                segmentsProcessed: 0
-              })}
+              onClick={() => setProcessing(IDLE_PROCESSING_STATE)}
               className="w-full"
             >
               新しいファイルを処理
@@ -399,13 +1018,7 @@ export default function AudioProcessor({ file, onTranscriptionComplete, onError
           
           {processing.stage === 'error' && (
             <Button 
-              onClick={() => setProcessing({
-                stage: 'idle',
-                progress: 0,
-                message: '',
-                segmentsTotal: 0,
-                segmentsProcessed: 0
-              })}
+              onClick={() => setProcessing(IDLE_PROCESSING_STATE)}
               className="w-full"
             >
               再試行
@@ -0,0 +1,271 @@
+'use client'
+
+import React, { useState, useCallback, useRef, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { MicrophoneRecorder } from '@/utils/recorderUtils'
+import type { AudioSegment } from '@/utils/audioUtils'
+import { GroqAPIClient, SegmentTranscriptionResult, TranscriptionGap, TranscriptionResult } from '@/utils/apiUtils'
+import { toTranscriptionError } from '@/utils/transcriptionErrors'
+import { buildPrompt, loadGlossary, parseGlossary } from '@/utils/promptUtils'
+import {
+  DEFAULT_HALLUCINATION_FILTER,
+  applyHallucinationFilter,
+  loadHallucinationBlacklist,
+  parseHallucinationBlacklist
+} from '@/utils/hallucinationFilter'
+import { ExportUtils } from '@/utils/exportUtils'
+
+interface AudioRecorderProps {
+  onRecordingStart: () => void
+  onPartialResult: (result: TranscriptionResult) => void
+  onRecordingComplete: (file: File, result: TranscriptionResult) => void
+  onError: (error: string) => void
+}
+
+interface RecordingState {
+  stage: 'idle' | 'recording' | 'finishing' | 'completed'
+  elapsed: number
+  chunksSent: number
+  chunksDone: number
+  chunksFailed: number
+}
+
+const IDLE_RECORDING_STATE: RecordingState = {
+  stage: 'idle',
+  elapsed: 0,
+  chunksSent: 0,
+  chunksDone: 0,
+  chunksFailed: 0
+}
+
+export default function AudioRecorder({ onRecordingStart, onPartialResult, onRecordingComplete, onError }: AudioRecorderProps) {
+  const [recording, setRecording] = useState<RecordingState>(IDLE_RECORDING_STATE)
+  const [recordedFile, setRecordedFile] = useState<File | null>(null)
+  const [isSupported, setIsSupported] = useState(true)
+
+  const [settings, setSettings] = useState({
+    segmentDuration: 20, // 20秒ごとに送信
+    language: 'ja'
+  })
+
+  const recorderRef = useRef<MicrophoneRecorder | null>(null)
+  const apiClientRef = useRef<GroqAPIClient | null>(null)
+  const resultsRef = useRef<SegmentTranscriptionResult[]>([])
+  const gapsRef = useRef<TranscriptionGap[]>([])
+  const pendingRef = useRef<Promise<void>[]>([])
+  // ファイルの文字起こしで編集した用語集を録音にも使う（録音開始時に読み込む）
+  const promptRef = useRef<string | undefined>(undefined)
+
+  // クライアントサイドでのみ対応状況を確認
+  useEffect(() => {
+    setIsSupported(MicrophoneRecorder.isSupported())
+  }, [])
+
+  // 録音時間の表示を更新
+  useEffect(() => {
+    if (recording.stage !== 'recording') return
+    const timer = setInterval(() => {
+      setRecording(prev => ({ ...prev, elapsed: recorderRef.current?.elapsed ?? prev.elapsed }))
+    }, 500)
+    return () => clearInterval(timer)
+  }, [recording.stage])
+
+  // 画面を離れたら録音を止める
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current?.isRecording) {
+        recorderRef.current.stop().catch(error => console.error('録音の停止に失敗:', error))
+      }
+    }
+  }, [])
+
+  // 区切られたチャンクを録音と並行して文字起こしし、届いた分から結果を統合する
+  const handleChunk = useCallback((segment: AudioSegment) => {
+    const apiClient = apiClientRef.current!
+    setRecording(prev => ({ ...prev, chunksSent: prev.chunksSent + 1 }))
+
+    const task = apiClient.transcribeAudio(segment.blob, { language: settings.language, prompt: promptRef.current }, 0, {
+      audioSeconds: segment.endTime - segment.startTime
+    })
+      .then(result => {
+        resultsRef.current.push({
+          ...result,
+          index: segment.index,
+          startTime: segment.startTime,
+          endTime: segment.endTime
+        })
+        setRecording(prev => ({ ...prev, chunksDone: prev.chunksDone + 1 }))
+        onPartialResult(apiClient.mergeTranscriptionResults(resultsRef.current, gapsRef.current))
+      })
+      .catch(error => {
+        console.error(`チャンク ${segment.index} の文字起こしに失敗:`, error)
+        gapsRef.current.push({
+          index: segment.index,
+          start: segment.startTime,
+          end: segment.endTime,
+          code: toTranscriptionError(error).code
+        })
+        setRecording(prev => ({ ...prev, chunksFailed: prev.chunksFailed + 1 }))
+      })
+
+    pendingRef.current.push(task)
+  }, [settings.language, onPartialResult])
+
+  const startRecording = useCallback(async () => {
+    resultsRef.current = []
+    gapsRef.current = []
+    pendingRef.current = []
+    promptRef.current = buildPrompt(parseGlossary(loadGlossary()))
+    setRecordedFile(null)
+
+    if (!apiClientRef.current) {
+      apiClientRef.current = new GroqAPIClient()
+    }
+
+    const recorder = new MicrophoneRecorder({ segmentDuration: settings.segmentDuration }, handleChunk)
+    try {
+      await recorder.start()
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '録音を開始できませんでした'
+      onError(errorMessage)
+      return
+    }
+
+    recorderRef.current = recorder
+    setRecording({ ...IDLE_RECORDING_STATE, stage: 'recording' })
+    onRecordingStart()
+  }, [settings.segmentDuration, handleChunk, onRecordingStart, onError])
+
+  const stopRecording = useCallback(async () => {
+    const recorder = recorderRef.current
+    if (!recorder) return
+
+    setRecording(prev => ({ ...prev, stage: 'finishing', elapsed: recorder.elapsed }))
+
+    try {
+      // 最後のチャンクを送り出し、送信中の文字起こしがすべて終わるのを待つ
+      const file = await recorder.stop()
+      await Promise.all(pendingRef.current)
+      recorderRef.current = null
+
+      if (resultsRef.current.length === 0) {
+        throw new Error('録音した音声を文字起こしできませんでした')
+      }
+
+      // 録音の無音区間で作られた定型句などに印を付ける（フレーズはファイルの文字起こしの設定を使う）
+      const mergedResult = applyHallucinationFilter(
+        apiClientRef.current!.mergeTranscriptionResults(resultsRef.current, gapsRef.current),
+        { ...DEFAULT_HALLUCINATION_FILTER, blacklist: parseHallucinationBlacklist(loadHallucinationBlacklist()) }
+      )
+      setRecordedFile(file)
+      setRecording(prev => ({ ...prev, stage: 'completed' }))
+      onRecordingComplete(file, mergedResult)
+    } catch (error) {
+      console.error('=== 録音処理エラー ===', error)
+      recorderRef.current = null
+      setRecording(IDLE_RECORDING_STATE)
+      onError(error instanceof Error ? error.message : '予期しないエラーが発生しました')
+    }
+  }, [onRecordingComplete, onError])
+
+  const formatElapsed = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60)
+    const remainingSeconds = Math.floor(seconds % 60)
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`
+  }
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle>マイク録音</CardTitle>
+        <CardDescription>
+          録音しながら{settings.segmentDuration}秒ごとに区切って文字起こしします
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isSupported && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-600">お使いのブラウザはマイク録音に対応していません</p>
+          </div>
+        )}
+
+        {/* 設定 */}
+        {(recording.stage === 'idle' || recording.stage === 'completed') && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium">区切り間隔（秒）</label>
+              <select
+                value={settings.segmentDuration}
+                onChange={(e) => setSettings(prev => ({ ...prev, segmentDuration: Number(e.target.value) }))}
+                className="w-full mt-1 p-2 border rounded"
+              >
+                <option value={10}>10秒</option>
+                <option value={20}>20秒</option>
+                <option value={30}>30秒</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                短いほど早く結果が表示されます
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium">言語</label>
+              <select
+                value={settings.language}
+                onChange={(e) => setSettings(prev => ({ ...prev, language: e.target.value }))}
+                className="w-full mt-1 p-2 border rounded"
+              >
+                <option value="ja">日本語</option>
+                <option value="en">英語</option>
+                <option value="auto">自動検出</option>
+              </select>
+            </div>
+          </div>
+        )}
+
+        {/* 録音状況 */}
+        {recording.stage !== 'idle' && (
+          <div className="space-y-1">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">
+                {recording.stage === 'recording' && '● 録音中'}
+                {recording.stage === 'finishing' && '残りの文字起こしを待っています...'}
+                {recording.stage === 'completed' && '録音の文字起こしが完了しました'}
+              </span>
+              <span className="text-sm font-mono text-gray-500">{formatElapsed(recording.elapsed)}</span>
+            </div>
+            <div className="text-xs text-gray-500">
+              文字起こし済み: {recording.chunksDone}/{recording.chunksSent} チャンク
+              {recording.chunksFailed > 0 && `（${recording.chunksFailed} チャンク失敗）`}
+            </div>
+          </div>
+        )}
+
+        {/* アクションボタン */}
+        <div className="flex gap-2">
+          {(recording.stage === 'idle' || recording.stage === 'completed') && (
+            <Button onClick={startRecording} disabled={!isSupported} className="w-full">
+              {recording.stage === 'completed' ? '新しく録音する' : '録音を開始'}
+            </Button>
+          )}
+
+          {recording.stage === 'recording' && (
+            <Button variant="destructive" onClick={stopRecording} className="w-full">
+              録音を停止
+            </Button>
+          )}
+
+          {recording.stage === 'completed' && recordedFile && (
+            <Button
+              variant="outline"
+              onClick={() => ExportUtils.downloadFile(recordedFile, recordedFile.name)}
+              className="w-full"
+            >
+              録音をダウンロード
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
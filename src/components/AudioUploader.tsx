@@ -3,16 +3,21 @@
 import React, { useCallback, useState, useRef, useEffect } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import {
+  FILE_INPUT_ACCEPT,
+  MAX_FILE_SIZE,
+  SUPPORTED_EXTENSIONS,
+  SUPPORTED_MIME_TYPES,
+  formatFileSizeLimit,
+  getFormatLabels,
+  isVideoFile
+} from '@/utils/mediaFormats'
 
 interface AudioUploaderProps {
   onFileSelect: (file: File) => void
   isProcessing: boolean
 }
 
-const SUPPORTED_FORMATS = ['audio/mp3', 'audio/mpeg', 'audio/wav', 'audio/m4a', 'audio/ogg', 'audio/flac', 'audio/x-m4a']
-const SUPPORTED_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.ogg', '.flac']
-const MAX_FILE_SIZE = 100 * 1024 * 1024 // 100MB
-
 export default function AudioUploader({ onFileSelect, isProcessing }: AudioUploaderProps) {
   const [dragActive, setDragActive] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -24,7 +29,7 @@ export default function AudioUploader({ onFileSelect, isProcessing }: AudioUploa
     if (fileInputRef.current) {
       console.log('File input element initialized')
       // ファイル入力要素を確実に設定
-      fileInputRef.current.accept = 'audio/*,.mp3,.wav,.m4a,.ogg,.flac'
+      fileInputRef.current.accept = FILE_INPUT_ACCEPT
       fileInputRef.current.multiple = false
       fileInputRef.current.style.display = 'none'
       
@@ -63,7 +68,7 @@ export default function AudioUploader({ onFileSelect, isProcessing }: AudioUploa
 
   const validateFile = (file: File): string | null => {
     // MIMEタイプの確認
-    const isValidMimeType = SUPPORTED_FORMATS.includes(file.type)
+    const isValidMimeType = SUPPORTED_MIME_TYPES.includes(file.type)
     
     // ファイル拡張子の確認
     const fileName = file.name.toLowerCase()
@@ -77,10 +82,11 @@ export default function AudioUploader({ onFileSelect, isProcessing }: AudioUploa
     })
     
     if (!isValidMimeType && !isValidExtension) {
-      return '対応していないファイル形式です。MP3, WAV, M4A, OGG, FLACをご利用ください。'
+      return `対応していないファイル形式です。${getFormatLabels()}をご利用ください。`
     }
-    if (file.size > MAX_FILE_SIZE) {
-      return 'ファイルサイズが100MBを超えています。'
+    const kind = isVideoFile(file) ? 'video' : 'audio'
+    if (file.size > MAX_FILE_SIZE[kind]) {
+      return `${kind === 'video' ? '動画' : '音声'}ファイルのサイズが${formatFileSizeLimit(kind)}を超えています。`
     }
     return null
   }
@@ -164,7 +170,7 @@ export default function AudioUploader({ onFileSelect, isProcessing }: AudioUploa
     // 動的にinput要素を作成
     const newInput = document.createElement('input')
     newInput.type = 'file'
-    newInput.accept = 'audio/*,.mp3,.wav,.m4a,.ogg,.flac'
+    newInput.accept = FILE_INPUT_ACCEPT
     newInput.multiple = false
     newInput.style.position = 'absolute'
     newInput.style.left = '-9999px'
@@ -207,9 +213,9 @@ export default function AudioUploader({ onFileSelect, isProcessing }: AudioUploa
   return (
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader>
-        <CardTitle>音声ファイルアップロード</CardTitle>
+        <CardTitle>音声・動画ファイルアップロード</CardTitle>
         <CardDescription>
-          MP3, WAV, M4A, OGG, FLACファイルをドラッグ&ドロップまたは選択してください（最大100MB）
+          {getFormatLabels()}ファイルをドラッグ&ドロップまたは選択してください（音声は最大{formatFileSizeLimit('audio')}、動画は最大{formatFileSizeLimit('video')}）
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -236,7 +242,7 @@ export default function AudioUploader({ onFileSelect, isProcessing }: AudioUploa
               <div className="text-sm text-gray-600">
                 <p className="font-semibold">{selectedFile.name}</p>
                 <p>サイズ: {formatFileSize(selectedFile.size)}</p>
-                <p>形式: {selectedFile.type}</p>
+                <p>形式: {selectedFile.type}{isVideoFile(selectedFile) && '（音声トラックを文字起こしします）'}</p>
               </div>
               {!isProcessing && (
                 <Button
@@ -269,7 +275,7 @@ export default function AudioUploader({ onFileSelect, isProcessing }: AudioUploa
                 </svg>
               </div>
               <div>
-                <p className="text-lg font-medium">音声ファイルをドロップ</p>
+                <p className="text-lg font-medium">音声・動画ファイルをドロップ</p>
                 <p className="text-sm text-gray-500">または</p>
               </div>
               <div>
@@ -0,0 +1,167 @@
+'use client'
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import type { TranscriptionResult } from '@/utils/apiUtils'
+import { ActiveJob, JobAPIClient, JobEvent, JobSnapshot, clearActiveJob, loadActiveJob } from '@/utils/jobClient'
+import { getErrorMessage } from '@/utils/transcriptionErrors'
+import {
+  DEFAULT_HALLUCINATION_FILTER,
+  applyHallucinationFilter,
+  loadHallucinationBlacklist,
+  parseHallucinationBlacklist
+} from '@/utils/hallucinationFilter'
+
+interface JobResumeProps {
+  onResult: (result: TranscriptionResult, fileName: string) => void
+}
+
+/**
+ * 前回サーバーで処理していたジョブがあれば、その進捗と結果を表示する。
+ */
+export default function JobResume({ onResult }: JobResumeProps) {
+  const [activeJob, setActiveJob] = useState<ActiveJob | null>(null)
+  const [snapshot, setSnapshot] = useState<JobSnapshot | null>(null)
+  const [partialTexts, setPartialTexts] = useState<Record<number, string>>({})
+  const [retryMessage, setRetryMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const jobClientRef = useRef<JobAPIClient | null>(null)
+
+  const dismiss = useCallback(() => {
+    clearActiveJob()
+    setActiveJob(null)
+  }, [])
+
+  useEffect(() => {
+    const stored = loadActiveJob()
+    if (!stored) return
+
+    let cancelled = false
+    const jobClient = new JobAPIClient()
+    jobClientRef.current = jobClient
+    setActiveJob(stored)
+
+    const resume = async () => {
+      try {
+        const current = await jobClient.getJob(stored.id)
+        if (cancelled) return
+        setSnapshot(current)
+
+        // アップロードの途中でタブが閉じられた場合は、サーバーだけでは続けられない
+        if (current.status === 'uploading') {
+          setError('セグメントの送信が途中で中断されたため、処理を続けられません。もう一度ファイルを選択してください。')
+          return
+        }
+
+        const handleEvent = (event: JobEvent) => {
+          if (cancelled) return
+          if (event.type === 'snapshot' || event.type === 'finished') {
+            setSnapshot(event.job)
+            setPartialTexts(Object.fromEntries(
+              event.job.segments
+                .filter(segment => segment.text)
+                .map(segment => [segment.index, segment.text!])
+            ))
+          } else if (event.type === 'succeeded') {
+            setPartialTexts(prev => ({ ...prev, [event.index]: event.text }))
+            setSnapshot(prev => prev && { ...prev, completedSegments: prev.completedSegments + 1 })
+            setRetryMessage(null)
+          } else if (event.type === 'failed') {
+            setSnapshot(prev => prev && { ...prev, completedSegments: prev.completedSegments + 1 })
+          } else if (event.type === 'retrying') {
+            setRetryMessage(`セグメント ${event.index + 1} を再試行しています（${getErrorMessage(event.code)}）`)
+          }
+        }
+
+        const job = await jobClient.followJob(stored.id, handleEvent)
+        if (cancelled) return
+
+        if (job.status === 'completed' && job.result) {
+          clearActiveJob()
+          setActiveJob(null)
+          // 処理を始めたときの設定は残っていないため、既定のモード（印を付けるだけ）でかける
+          onResult(applyHallucinationFilter(job.result, {
+            ...DEFAULT_HALLUCINATION_FILTER,
+            blacklist: parseHallucinationBlacklist(loadHallucinationBlacklist())
+          }), stored.fileName)
+        } else {
+          setError(job.error || 'サーバーでの文字起こしに失敗しました')
+        }
+      } catch (error) {
+        console.error('ジョブの再開に失敗:', error)
+        if (cancelled) return
+        // サーバー側で削除されたジョブは記録も消す
+        if (error instanceof Error && error.message === 'Job not found') {
+          clearActiveJob()
+          setActiveJob(null)
+        } else {
+          setError('サーバーに接続できませんでした。しばらくしてからページを再読み込みしてください。')
+        }
+      }
+    }
+    resume()
+
+    return () => {
+      cancelled = true
+    }
+  }, [onResult])
+
+  const discardJob = useCallback(async () => {
+    if (!activeJob) return
+    try {
+      await jobClientRef.current?.deleteJob(activeJob.id)
+    } catch (error) {
+      console.error('ジョブの削除に失敗:', error)
+    }
+    dismiss()
+  }, [activeJob, dismiss])
+
+  if (!activeJob) {
+    return null
+  }
+
+  const progress = snapshot ? (snapshot.completedSegments / snapshot.totalSegments) * 100 : 0
+  const partialText = Object.entries(partialTexts)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([, text]) => text.trim())
+    .join(' ')
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle>前回の処理</CardTitle>
+        <CardDescription>{activeJob.fileName}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error ? (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">サーバーで文字起こし中です...</span>
+              {snapshot && (
+                <span className="text-sm text-gray-500">{snapshot.completedSegments}/{snapshot.totalSegments}</span>
+              )}
+            </div>
+            <Progress value={progress} className="w-full" />
+            {retryMessage && (
+              <p className="text-xs text-yellow-700">{retryMessage}</p>
+            )}
+            {partialText && (
+              <div className="max-h-40 overflow-y-auto p-3 bg-gray-50 rounded-md">
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{partialText}</p>
+              </div>
+            )}
+          </>
+        )}
+        <Button variant="outline" onClick={discardJob} className="w-full">
+          {error ? '閉じる' : '処理を中止して破棄'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,29 +1,213 @@
 'use client'
 
-import React, { useState, useCallback, useMemo } from 'react'
+import React, { useState, useCallback, useMemo, useRef } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { TranscriptionResult, TranscriptionSegment } from '@/utils/apiUtils'
+import {
+  GroqAPIClient,
+  HallucinationFlag,
+  TranscriptionGap,
+  TranscriptionOptions,
+  TranscriptionResult,
+  TranscriptionSegment,
+  TranscriptionWord
+} from '@/utils/apiUtils'
+import { AudioProcessor as AudioUtil, getExtractOptions } from '@/utils/audioUtils'
+import { getErrorMessage } from '@/utils/transcriptionErrors'
+import { HALLUCINATION_REASON_LABELS, isInFlaggedRange } from '@/utils/hallucinationFilter'
+import { CONFIDENCE_LABELS, ConfidenceLevel, computeConfidence, getConfidenceLevel, getReviewQueue } from '@/utils/confidenceUtils'
+import { MergeUtils } from '@/utils/mergeUtils'
+import { MODEL_CHOICES, withModel } from '@/utils/modelLadder'
+import { buildPrompt, loadGlossary, parseGlossary } from '@/utils/promptUtils'
 
 interface TranscriptionDisplayProps {
   result: TranscriptionResult | null
   onExport: (format: string, data: string) => void
+  sourceFile?: File | null // 結果の元の音声（ある場合はセグメントごとに処理し直せる）
+  audioUtil?: AudioUtil
+  // 最新の結果を受け取って更新後の結果を返す関数を渡す（複数のセグメントを同時に処理し直しても、順に反映する）
+  onResultChange?: (update: (result: TranscriptionResult) => TranscriptionResult) => void
 }
 
-export default function TranscriptionDisplay({ result, onExport }: TranscriptionDisplayProps) {
+// 処理し直すときに、セグメントの前後に含める音声（秒）。隣のセグメントには重ならないようにする
+const RETRANSCRIBE_PADDING = 0.3
+
+// 再生中の位置（segment は再生位置を含むセグメント、word は最後に読み始めた単語。無い場合は -1）
+interface PlaybackPosition {
+  segment: number
+  word: number
+}
+
+// 開始時刻順に並んだ中で、time までに始まった最後の要素の番号（無い場合は -1）
+function findLastStarted(items: { start: number }[], time: number): number {
+  let low = 0
+  let high = items.length - 1
+  let found = -1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if (items[middle].start <= time) {
+      found = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+  return found
+}
+
+export default function TranscriptionDisplay({ result, onExport, sourceFile, audioUtil, onResultChange }: TranscriptionDisplayProps) {
   const [editedText, setEditedText] = useState('')
   const [searchQuery, setSearchQuery] = useState('')
   const [isEditing, setIsEditing] = useState(false)
   const [viewMode, setViewMode] = useState<'full' | 'segments' | 'words'>('full')
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copying' | 'success' | 'error'>('idle')
+  // 確認キューの中で表示しているセグメントの位置
+  const [reviewPosition, setReviewPosition] = useState<number | null>(null)
+  const apiClientRef = useRef<GroqAPIClient | null>(null)
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+  const [audioUrl, setAudioUrl] = useState<string | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [playback, setPlayback] = useState<PlaybackPosition>({ segment: -1, word: -1 })
+  // 再生中のセグメント（単語）が見えるようにスクロールする
+  const [autoScroll, setAutoScroll] = useState(true)
+
+  // 元のファイルをそのまま再生する（動画の場合も音声だけを再生する）
+  React.useEffect(() => {
+    setIsPlaying(false)
+    if (!sourceFile) {
+      setAudioUrl(null)
+      return
+    }
+    const url = URL.createObjectURL(sourceFile)
+    setAudioUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [sourceFile])
 
   // 結果が変更されたら編集テキストも更新
   React.useEffect(() => {
     if (result) {
       setEditedText(result.text)
     }
+    setReviewPosition(null)
+  }, [result])
+
+  const confidences = useMemo(() => result?.segments.map(computeConfidence) ?? [], [result])
+  const reviewQueue = useMemo(() => getReviewQueue(confidences), [confidences])
+  const reviewSegmentIndex = reviewPosition !== null ? reviewQueue[reviewPosition] : undefined
+
+  // 確認キューで選んだセグメントまでスクロールする
+  React.useEffect(() => {
+    if (reviewSegmentIndex === undefined || viewMode !== 'segments') return
+    document.getElementById(`segment-${reviewSegmentIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [reviewSegmentIndex, viewMode])
+
+  const moveReview = useCallback((step: number) => {
+    if (reviewQueue.length === 0) return
+    setViewMode('segments')
+    setReviewPosition(prev => prev === null
+      ? (step > 0 ? 0 : reviewQueue.length - 1)
+      : (prev + step + reviewQueue.length) % reviewQueue.length)
+  }, [reviewQueue])
+
+  /**
+   * 1つのセグメントの区間を元の音声から切り出し、指定したモデル・言語・プロンプトで処理し直して置き換える。
+   * 前処理と音声の形式は最初の文字起こしと同じ設定を使い、タスク（翻訳するかどうか）も元の結果に合わせる。
+   */
+  const retranscribeSegment = useCallback(async (index: number, options: TranscriptionOptions) => {
+    if (!result || !sourceFile || !audioUtil || !onResultChange) return
+    const segment = result.segments[index]
+    const previous = result.segments[index - 1]
+    const next = result.segments[index + 1]
+    const start = Math.max(previous?.end ?? 0, segment.start - RETRANSCRIBE_PADDING, 0)
+    const end = Math.min(next?.start ?? Infinity, segment.end + RETRANSCRIBE_PADDING)
+
+    const [audio] = await audioUtil.extractSegments(sourceFile, [{ start, end, index }], {
+      segmentDuration: end - start,
+      overlap: 0,
+      ...getExtractOptions(result.metadata)
+    })
+    apiClientRef.current ??= new GroqAPIClient()
+    const apiClient = apiClientRef.current
+    const transcribed = withModel(await apiClient.transcribeAudio(
+      audio.blob,
+      { ...options, task: result.task ?? 'transcribe' },
+      0,
+      { audioSeconds: audio.duration }
+    ), options.model)
+    // 待っている間に他のセグメントが置き換わり、番号がずれていることがあるため、最新の結果から同じ区間のセグメントを探す
+    onResultChange(current => {
+      const currentIndex = current.segments.findIndex(item => item.start === segment.start && item.end === segment.end)
+      return currentIndex >= 0
+        ? apiClient.replaceTranscriptionSegment(current, currentIndex, transcribed, audio.startTime)
+        : current
+    })
+  }, [result, sourceFile, audioUtil, onResultChange])
+
+  // 処理し直すフォームの初期値（元の言語と、用語集と前のセグメントの末尾から作ったプロンプト）
+  const defaultOptionsFor = useCallback((index: number): TranscriptionOptions => {
+    const language = result?.language.toLowerCase() ?? ''
+    const model = result?.segments[index]?.model ?? ''
+    return {
+      model: MODEL_CHOICES.some(choice => choice.id === model) ? model : '',
+      language: language.startsWith('ja') ? 'ja' : language.startsWith('en') ? 'en' : 'auto',
+      prompt: buildPrompt(parseGlossary(loadGlossary()), result?.segments[index - 1]?.text) ?? ''
+    }
+  }, [result])
+
+  // 各セグメントの単語（単語の中央がセグメントの区間に入るもの）と、結果全体での単語の番号
+  const segmentWords = useMemo(() => {
+    const grouped: { word: TranscriptionWord; index: number }[][] = result?.segments.map(() => []) ?? []
+    result?.words.forEach((word, index) => {
+      const middle = (word.start + word.end) / 2
+      const segmentIndex = findLastStarted(result.segments, middle)
+      if (segmentIndex >= 0 && middle <= result.segments[segmentIndex].end) {
+        grouped[segmentIndex].push({ word, index })
+      }
+    })
+    return grouped
   }, [result])
 
+  // 再生位置からセグメントと単語を求める（変わらない場合は再描画しない）
+  const syncPlayback = useCallback(() => {
+    const audio = audioRef.current
+    if (!audio || !result) return
+    const time = audio.currentTime
+    const lastSegment = findLastStarted(result.segments, time)
+    const segment = lastSegment >= 0 && time < result.segments[lastSegment].end ? lastSegment : -1
+    const word = findLastStarted(result.words, time)
+    setPlayback(prev => prev.segment === segment && prev.word === word ? prev : { segment, word })
+  }, [result])
+
+  // timeupdate は数回/秒しか届かないため、再生中は描画のたびに再生位置を読む
+  React.useEffect(() => {
+    syncPlayback()
+    if (!isPlaying) return
+    let frame = requestAnimationFrame(function update() {
+      syncPlayback()
+      frame = requestAnimationFrame(update)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [isPlaying, syncPlayback])
+
+  const scrollTargetId = viewMode === 'segments' && playback.segment >= 0
+    ? `segment-${playback.segment}`
+    : viewMode === 'words' && playback.word >= 0
+      ? `word-${playback.word}`
+      : null
+
+  React.useEffect(() => {
+    if (!autoScroll || !isPlaying || !scrollTargetId) return
+    document.getElementById(scrollTargetId)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [autoScroll, isPlaying, scrollTargetId])
+
+  // クリックしたセグメント・単語の開始位置から再生する
+  const seekTo = useCallback((time: number) => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.currentTime = time
+    audio.play().catch(error => console.warn('再生を開始できません:', error))
+  }, [])
+
   const formatTime = useCallback((seconds: number): string => {
     const minutes = Math.floor(seconds / 60)
     const remainingSeconds = Math.floor(seconds % 60)
@@ -68,10 +252,17 @@ export default function TranscriptionDisplay({ result, onExport }: Transcription
         exportData = JSON.stringify({
           text: editedText,
           originalText: result.text,
-          segments: result.segments,
+          segments: result.segments.map((segment, index) => ({
+            ...segment,
+            confidence: Math.round(confidences[index] * 1000) / 1000
+          })),
           words: result.words,
           language: result.language,
           duration: result.duration,
+          task: result.task ?? 'transcribe',
+          gaps: result.gaps,
+          flagged: result.flagged,
+          metadata: result.metadata,
           exportedAt: new Date().toISOString()
         }, null, 2)
         break
@@ -81,7 +272,7 @@ export default function TranscriptionDisplay({ result, onExport }: Transcription
     }
     
     onExport(format, exportData)
-  }, [result, editedText, formatTime, onExport])
+  }, [result, editedText, confidences, formatTime, onExport])
 
   const copyToClipboard = useCallback(async () => {
     setCopyStatus('copying')
@@ -203,6 +394,14 @@ export default function TranscriptionDisplay({ result, onExport }: Transcription
     return null
   }
 
+  const gaps = result.gaps ?? []
+  const flagged = result.flagged ?? []
+  const removedCount = flagged.filter(flag => flag.removed).length
+  // 品質チェックで処理し直したセグメントがあると、複数のモデルが混ざる
+  const models = Array.from(new Set(result.segments.flatMap(segment => segment.model ? [segment.model] : [])))
+  // 結果に残っているセグメントに付いた印（開始・終了時刻で対応付ける）
+  const flagFor = (segment: TranscriptionSegment) =>
+    flagged.find(flag => !flag.removed && flag.start === segment.start && flag.end === segment.end)
   const wordCount = editedText.split(/\s+/).filter(word => word.length > 0).length
   const estimatedReadingTime = Math.ceil(wordCount / 200) // 1分間に200語として計算
 
@@ -213,7 +412,8 @@ export default function TranscriptionDisplay({ result, onExport }: Transcription
         <CardHeader>
           <CardTitle>文字起こし結果</CardTitle>
           <CardDescription>
-            言語: {result.language} | 
+            言語: {result.language}{result.task === 'translate' && ' → 英語に翻訳'} | 
+            {models.length > 0 && `モデル: ${models.join(', ')} | `}
             音声時間: {formatTime(result.duration)} | 
             文字数: {editedText.length} | 
             単語数: {wordCount} | 
@@ -222,6 +422,97 @@ export default function TranscriptionDisplay({ result, onExport }: Transcription
         </CardHeader>
       </Card>
 
+      {/* 元の音声の再生（スクロールしても見えるように上部に固定する） */}
+      {audioUrl && (
+        <Card className="sticky top-2 z-10">
+          <CardContent className="pt-6 space-y-2">
+            <audio
+              ref={audioRef}
+              src={audioUrl}
+              controls
+              preload="metadata"
+              className="w-full"
+              onPlay={() => setIsPlaying(true)}
+              onPause={() => setIsPlaying(false)}
+              onEnded={() => setIsPlaying(false)}
+              onSeeked={syncPlayback}
+            />
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>セグメント・単語をクリックすると、その位置から再生します</span>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={autoScroll}
+                  onChange={(e) => setAutoScroll(e.target.checked)}
+                />
+                再生位置に合わせてスクロール
+              </label>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 文字起こしできなかった区間 */}
+      {gaps.length > 0 && (
+        <Card className="border-orange-200 bg-orange-50">
+          <CardContent className="pt-6 space-y-2">
+            <p className="text-sm font-medium text-orange-800">
+              ⚠️ {gaps.length}個の区間を文字起こしできませんでした（結果には含まれていません）
+            </p>
+            <ul className="text-xs text-orange-700 space-y-1">
+              {gaps.map(gap => (
+                <li key={gap.index}>
+                  {formatTime(gap.start)} - {formatTime(gap.end)}: {getErrorMessage(gap.code)}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 幻聴の疑いがあるセグメント */}
+      {flagged.length > 0 && (
+        <Card className="border-purple-200 bg-purple-50">
+          <CardContent className="pt-6 space-y-2">
+            <p className="text-sm font-medium text-purple-800">
+              👻 音声に無い文字起こし（幻聴）の疑いがあるセグメントが{flagged.length}個あります
+              {removedCount > 0 && `（うち${removedCount}個は結果から取り除きました）`}
+            </p>
+            <ul className="text-xs text-purple-700 space-y-1">
+              {flagged.map(flag => (
+                <li key={`${flag.start}-${flag.end}`} className={flag.removed ? 'line-through decoration-purple-300' : ''}>
+                  {formatTime(flag.start)} - {formatTime(flag.end)}: 「{flag.text}」（{flag.reasons.map(reason => HALLUCINATION_REASON_LABELS[reason]).join('、')}）
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 信頼度の低いセグメントの確認 */}
+      {reviewQueue.length > 0 && (
+        <Card className="border-yellow-200 bg-yellow-50">
+          <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="text-sm text-yellow-800">
+              🔍 信頼度が低めのセグメントが{reviewQueue.length}個あります（低い順に確認できます）
+              {reviewSegmentIndex !== undefined && (
+                <span className="ml-2 font-medium">
+                  {reviewPosition! + 1}/{reviewQueue.length}: #{reviewSegmentIndex + 1}（信頼度 {Math.round(confidences[reviewSegmentIndex] * 100)}%）
+                </span>
+              )}
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => moveReview(-1)}>
+                前へ
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => moveReview(1)}>
+                {reviewPosition === null ? '確認を始める' : '次へ'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* 検索とアクション */}
       <Card>
         <CardContent className="pt-6">
@@ -317,15 +608,32 @@ export default function TranscriptionDisplay({ result, onExport }: Transcription
 
           {viewMode === 'segments' && (
             <div className="space-y-3">
+              {/* 処理し直すとセグメントの数が変わるため、番号ではなく区間で行を区別する */}
               {result.segments.map((segment, index) => (
-                <SegmentDisplay
-                  key={index}
-                  segment={segment}
-                  index={index}
-                  searchQuery={searchQuery}
-                  formatTime={formatTime}
-                />
+                <React.Fragment key={`${segment.start}-${segment.end}`}>
+                  {gaps
+                    .filter(gap => gap.start < segment.start && (index === 0 || gap.start >= result.segments[index - 1].start))
+                    .map(gap => <GapMarker key={`gap-${gap.index}`} gap={gap} formatTime={formatTime} />)}
+                  <SegmentDisplay
+                    segment={segment}
+                    index={index}
+                    confidence={confidences[index]}
+                    isReviewing={index === reviewSegmentIndex}
+                    flag={flagFor(segment)}
+                    searchQuery={searchQuery}
+                    formatTime={formatTime}
+                    onRetranscribe={sourceFile && audioUtil && onResultChange ? retranscribeSegment : undefined}
+                    defaultOptionsFor={defaultOptionsFor}
+                    words={segmentWords[index]}
+                    isCurrent={index === playback.segment}
+                    currentWord={playback.word}
+                    onSeek={audioUrl ? seekTo : undefined}
+                  />
+                </React.Fragment>
               ))}
+              {gaps
+                .filter(gap => result.segments.length === 0 || gap.start >= result.segments[result.segments.length - 1].start)
+                .map(gap => <GapMarker key={`gap-${gap.index}`} gap={gap} formatTime={formatTime} />)}
             </div>
           )}
 
@@ -334,7 +642,13 @@ export default function TranscriptionDisplay({ result, onExport }: Transcription
               {result.words.map((word, index) => (
                 <span
                   key={index}
-                  className="inline-block m-1 px-2 py-1 bg-blue-50 rounded text-xs border"
+                  id={`word-${index}`}
+                  onClick={audioUrl ? () => seekTo(word.start) : undefined}
+                  className={`inline-block m-1 px-2 py-1 rounded text-xs border ${
+                    index === playback.word
+                      ? 'bg-blue-200 border-blue-400'
+                      : isInFlaggedRange(word, flagged) ? 'bg-purple-50 border-purple-300 text-purple-700' : 'bg-blue-50'
+                  } ${audioUrl ? 'cursor-pointer hover:border-blue-400' : ''}`}
                   title={`${formatTime(word.start)} - ${formatTime(word.end)}`}
                 >
                   {word.word}
@@ -348,14 +662,89 @@ export default function TranscriptionDisplay({ result, onExport }: Transcription
   )
 }
 
+interface GapMarkerProps {
+  gap: TranscriptionGap
+  formatTime: (seconds: number) => string
+}
+
+// セグメント一覧の中で、文字起こしできなかった区間を示す
+function GapMarker({ gap, formatTime }: GapMarkerProps) {
+  return (
+    <div className="p-3 border border-dashed border-orange-300 rounded-md bg-orange-50">
+      <span className="text-xs text-orange-700">
+        {formatTime(gap.start)} - {formatTime(gap.end)}: 文字起こしできませんでした（{getErrorMessage(gap.code)}）
+      </span>
+    </div>
+  )
+}
+
 interface SegmentDisplayProps {
   segment: TranscriptionSegment
   index: number
+  confidence: number
+  isReviewing: boolean // 確認キューで選ばれている
+  flag?: HallucinationFlag // 幻聴の疑いがある場合
   searchQuery: string
   formatTime: (seconds: number) => string
+  onRetranscribe?: (index: number, options: TranscriptionOptions) => Promise<void> // 元の音声が無い場合は省略
+  defaultOptionsFor: (index: number) => TranscriptionOptions
+  words: { word: TranscriptionWord; index: number }[] // このセグメントの単語（index は結果全体での番号）
+  isCurrent: boolean // 再生中のセグメント
+  currentWord: number // 最後に読み始めた単語の番号
+  onSeek?: (time: number) => void // 再生できない場合は省略
+}
+
+// 信頼度ごとの色（左端の線とバッジ）
+const CONFIDENCE_STYLES: Record<ConfidenceLevel, { border: string; badge: string }> = {
+  high: { border: 'border-l-green-400', badge: 'bg-green-100 text-green-700' },
+  medium: { border: 'border-l-yellow-400', badge: 'bg-yellow-100 text-yellow-800' },
+  low: { border: 'border-l-red-400', badge: 'bg-red-100 text-red-700' }
 }
 
-function SegmentDisplay({ segment, index, searchQuery, formatTime }: SegmentDisplayProps) {
+function SegmentDisplay({
+  segment,
+  index,
+  confidence,
+  isReviewing,
+  flag,
+  searchQuery,
+  formatTime,
+  onRetranscribe,
+  defaultOptionsFor,
+  words,
+  isCurrent,
+  currentWord,
+  onSeek
+}: SegmentDisplayProps) {
+  // 処理し直すフォーム（開いていない場合は null）
+  const [retranscribeOptions, setRetranscribeOptions] = useState<TranscriptionOptions | null>(null)
+  const [isRetranscribing, setIsRetranscribing] = useState(false)
+  const [retranscribeError, setRetranscribeError] = useState<string | null>(null)
+
+  const openRetranscribe = useCallback(() => {
+    setRetranscribeOptions(defaultOptionsFor(index))
+    setRetranscribeError(null)
+  }, [defaultOptionsFor, index])
+
+  const submitRetranscribe = useCallback(async () => {
+    if (!onRetranscribe || !retranscribeOptions) return
+    setIsRetranscribing(true)
+    setRetranscribeError(null)
+    try {
+      await onRetranscribe(index, {
+        model: retranscribeOptions.model || undefined,
+        language: retranscribeOptions.language,
+        prompt: retranscribeOptions.prompt?.trim() || undefined
+      })
+      setRetranscribeOptions(null)
+    } catch (error) {
+      console.error('セグメントの再文字起こしに失敗しました:', error)
+      setRetranscribeError(error instanceof Error ? error.message : '予期しないエラーが発生しました')
+    } finally {
+      setIsRetranscribing(false)
+    }
+  }, [onRetranscribe, retranscribeOptions, index])
+
   const highlightedText = useMemo(() => {
     if (!searchQuery) return segment.text
     
@@ -363,19 +752,135 @@ function SegmentDisplay({ segment, index, searchQuery, formatTime }: SegmentDisp
     return segment.text.replace(regex, '<mark class="bg-yellow-200">$1</mark>')
   }, [segment.text, searchQuery])
 
+  const level = getConfidenceLevel(confidence)
+  const style = CONFIDENCE_STYLES[level]
+
+  // 文字を選択してコピーしようとした場合は再生位置を動かさない
+  const handleTextClick = useCallback(() => {
+    if (!onSeek || window.getSelection()?.toString()) return
+    onSeek(segment.start)
+  }, [onSeek, segment.start])
+
   return (
-    <div className="flex gap-4 p-3 bg-gray-50 rounded-md hover:bg-gray-100 transition-colors">
-      <div className="flex-shrink-0 text-xs text-gray-500 font-mono min-w-24">
-        <div>{formatTime(segment.start)}</div>
-        <div>{formatTime(segment.end)}</div>
-      </div>
-      <div 
-        className="flex-1 text-sm leading-relaxed"
-        dangerouslySetInnerHTML={{ __html: highlightedText }}
-      />
-      <div className="flex-shrink-0 text-xs text-gray-400">
-        #{index + 1}
+    <div
+      id={`segment-${index}`}
+      className={`p-3 rounded-md transition-colors border-l-4 ${style.border} ${isCurrent ? 'bg-blue-50' : 'bg-gray-50 hover:bg-gray-100'} ${isReviewing ? 'ring-2 ring-yellow-400' : ''}`}
+    >
+      <div className="flex gap-4">
+        <button
+          type="button"
+          onClick={() => onSeek?.(segment.start)}
+          disabled={!onSeek}
+          className="flex-shrink-0 text-xs text-gray-500 font-mono min-w-24 text-left enabled:hover:text-blue-600"
+          title={onSeek ? 'この位置から再生' : undefined}
+        >
+          <span className="block">{formatTime(segment.start)}</span>
+          <span className="block">{formatTime(segment.end)}</span>
+        </button>
+        {/* 再生中は、読み終えた単語と読んでいる単語を色分けする（検索中は検索語の強調を優先する） */}
+        {isCurrent && words.length > 0 && !searchQuery ? (
+          <div
+            className={`flex-1 text-sm leading-relaxed ${onSeek ? 'cursor-pointer' : ''}`}
+            onClick={handleTextClick}
+          >
+            {words.map(({ word, index: wordIndex }, position) => (
+              <React.Fragment key={wordIndex}>
+                {position > 0 && MergeUtils.needsSpace(words[position - 1].word.word.trim(), word.word.trim()) && ' '}
+                <span
+                  className={wordIndex === currentWord
+                    ? 'bg-blue-200 text-blue-900 rounded'
+                    : wordIndex < currentWord ? 'text-blue-700' : 'text-gray-500'}
+                >
+                  {word.word.trim()}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+        ) : (
+          <div 
+            className={`flex-1 text-sm leading-relaxed ${onSeek ? 'cursor-pointer' : ''}`}
+            onClick={handleTextClick}
+            dangerouslySetInnerHTML={{ __html: highlightedText }}
+          />
+        )}
+        <div className="flex-shrink-0 text-xs text-gray-400 text-right space-y-1">
+          <div>#{index + 1}</div>
+          {segment.model && <div className="font-mono">{segment.model}</div>}
+          <div
+            className={`px-1.5 py-0.5 rounded ${style.badge}`}
+            title={`avg_logprob: ${segment.avg_logprob.toFixed(2)} / no_speech_prob: ${segment.no_speech_prob.toFixed(2)} / compression_ratio: ${segment.compression_ratio.toFixed(2)}`}
+          >
+            信頼度{CONFIDENCE_LABELS[level]} {Math.round(confidence * 100)}%
+          </div>
+          {flag && (
+            <div className="px-1.5 py-0.5 rounded bg-purple-100 text-purple-700">
+              幻聴の疑い（{flag.reasons.map(reason => HALLUCINATION_REASON_LABELS[reason]).join('、')}）
+            </div>
+          )}
+          {onRetranscribe && !retranscribeOptions && (
+            <button
+              type="button"
+              onClick={openRetranscribe}
+              className="text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              再文字起こし
+            </button>
+          )}
+        </div>
       </div>
+      {retranscribeOptions && (
+        <div className="mt-3 pt-3 border-t border-gray-200 space-y-2">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-gray-600">モデル</label>
+              <select
+                value={retranscribeOptions.model}
+                onChange={(e) => setRetranscribeOptions(prev => prev && { ...prev, model: e.target.value })}
+                disabled={isRetranscribing}
+                className="w-full mt-1 p-1.5 border rounded text-sm"
+              >
+                {MODEL_CHOICES.map(choice => (
+                  <option key={choice.id} value={choice.id}>{choice.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-gray-600">音声の言語</label>
+              <select
+                value={retranscribeOptions.language}
+                onChange={(e) => setRetranscribeOptions(prev => prev && { ...prev, language: e.target.value })}
+                disabled={isRetranscribing}
+                className="w-full mt-1 p-1.5 border rounded text-sm"
+              >
+                <option value="ja">日本語</option>
+                <option value="en">英語</option>
+                <option value="auto">自動検出</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="text-xs text-gray-600">プロンプト（固有名詞や前後の文脈。空欄で無し）</label>
+            <textarea
+              value={retranscribeOptions.prompt}
+              onChange={(e) => setRetranscribeOptions(prev => prev && { ...prev, prompt: e.target.value })}
+              disabled={isRetranscribing}
+              rows={2}
+              className="w-full mt-1 p-1.5 border rounded text-sm resize-y"
+            />
+          </div>
+          {retranscribeError && (
+            <p className="text-xs text-red-600">{retranscribeError}</p>
+          )}
+          <div className="flex gap-2">
+            <Button size="sm" onClick={submitRetranscribe} disabled={isRetranscribing}>
+              {isRetranscribing ? '処理中...' : 'この区間を処理し直す'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setRetranscribeOptions(null)} disabled={isRetranscribing}>
+              キャンセル
+            </Button>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
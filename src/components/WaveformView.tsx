@@ -0,0 +1,149 @@
+'use client'
+
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import type { AudioRange } from '@/utils/audioUtils'
+import type { WaveformPeaks } from '@/utils/waveformUtils'
+
+interface WaveformViewProps {
+  peaks: WaveformPeaks
+  boundaries: AudioRange[] // 予定されているセグメントの区間
+  range: AudioRange | null // 選択範囲（nullなら全体）
+  onRangeChange: (range: AudioRange | null) => void
+  disabled?: boolean
+}
+
+const WAVEFORM_HEIGHT = 96
+// これより短いドラッグはクリックとみなして選択を解除する（秒）
+const MIN_SELECTION_SECONDS = 1
+
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60)
+  const remainingSeconds = Math.floor(seconds % 60)
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`
+}
+
+export default function WaveformView({ peaks, boundaries, range, onRangeChange, disabled = false }: WaveformViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const dragStartRef = useRef<number | null>(null)
+  const [width, setWidth] = useState(0)
+  const [dragRange, setDragRange] = useState<AudioRange | null>(null)
+
+  // 表示幅に合わせてキャンバスを描き直す
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width))
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  const selection = dragRange ?? range
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || width === 0) return
+
+    const pixelRatio = window.devicePixelRatio || 1
+    canvas.width = Math.floor(width * pixelRatio)
+    canvas.height = Math.floor(WAVEFORM_HEIGHT * pixelRatio)
+    const context = canvas.getContext('2d')
+    if (!context) return
+
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+    context.clearRect(0, 0, width, WAVEFORM_HEIGHT)
+
+    const toX = (time: number) => (time / peaks.duration) * width
+    const middle = WAVEFORM_HEIGHT / 2
+
+    // 選択範囲
+    if (selection) {
+      context.fillStyle = 'rgba(59, 130, 246, 0.15)'
+      context.fillRect(toX(selection.start), 0, toX(selection.end) - toX(selection.start), WAVEFORM_HEIGHT)
+    }
+
+    // 波形（選択範囲外は薄く表示）
+    const bucketCount = peaks.min.length
+    for (let x = 0; x < width; x++) {
+      const bucket = Math.min(bucketCount - 1, Math.floor((x / width) * bucketCount))
+      const time = (x / width) * peaks.duration
+      const inSelection = !selection || (time >= selection.start && time <= selection.end)
+      context.fillStyle = inSelection ? '#4b5563' : '#d1d5db'
+      const top = middle - peaks.max[bucket] * middle
+      const bottom = middle - peaks.min[bucket] * middle
+      context.fillRect(x, top, 1, Math.max(1, bottom - top))
+    }
+
+    // セグメント境界
+    context.strokeStyle = '#f97316'
+    context.lineWidth = 1
+    for (const boundary of boundaries.slice(1)) {
+      const x = Math.round(toX(boundary.start)) + 0.5
+      context.beginPath()
+      context.moveTo(x, 0)
+      context.lineTo(x, WAVEFORM_HEIGHT)
+      context.stroke()
+    }
+  }, [peaks, boundaries, selection, width])
+
+  const getTime = useCallback((event: React.PointerEvent<HTMLCanvasElement>): number => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width))
+    return ratio * peaks.duration
+  }, [peaks.duration])
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const time = getTime(event)
+    dragStartRef.current = time
+    setDragRange({ start: time, end: time })
+  }, [disabled, getTime])
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current
+    if (start === null) return
+    const time = getTime(event)
+    setDragRange({ start: Math.min(start, time), end: Math.max(start, time) })
+  }, [getTime])
+
+  const handlePointerUp = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current
+    if (start === null) return
+    dragStartRef.current = null
+    setDragRange(null)
+
+    const time = getTime(event)
+    const selected = { start: Math.min(start, time), end: Math.max(start, time) }
+    onRangeChange(selected.end - selected.start < MIN_SELECTION_SECONDS ? null : selected)
+  }, [getTime, onRangeChange])
+
+  return (
+    <div className="space-y-2">
+      <div ref={containerRef} className="w-full rounded border bg-gray-50">
+        <canvas
+          ref={canvasRef}
+          style={{ width: '100%', height: WAVEFORM_HEIGHT, cursor: disabled ? 'default' : 'crosshair', touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <span>
+          {selection
+            ? `選択範囲: ${formatTime(selection.start)} 〜 ${formatTime(selection.end)}（${formatTime(selection.end - selection.start)}）`
+            : `全体: ${formatTime(peaks.duration)}（ドラッグで範囲を選択）`}
+          {` / ${boundaries.length}セグメント予定`}
+        </span>
+        {range && !disabled && (
+          <Button variant="ghost" size="sm" onClick={() => onRangeChange(null)}>
+            選択を解除
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { TranscriptionResult } from '@/utils/apiUtils'
+
+// TRANSCRIPTION_CACHE_DIR を設定した場合のみ、ルートで文字起こし結果をファイルに保存して再利用する
+const CACHE_DIR = process.env.TRANSCRIPTION_CACHE_DIR
+
+/**
+ * キー（createCacheKey で作ったSHA-256）ごとに1ファイルで保存するキャッシュ。
+ * 読み書きに失敗しても文字起こしは続けられるよう、エラーはログに残すだけにする。
+ */
+export class FileTranscriptionCache {
+  constructor(private readonly dir: string) {}
+
+  async get(key: string): Promise<TranscriptionResult | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(key), 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('Failed to read transcription cache:', error)
+      }
+      return undefined
+    }
+  }
+
+  async set(key: string, result: TranscriptionResult): Promise<void> {
+    try {
+      await fs.mkdir(this.dir, { recursive: true })
+      const file = this.fileFor(key)
+      // 書き込み途中のファイルを読まないよう、一時ファイルから置き換える
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(result))
+      await fs.rename(`${file}.tmp`, file)
+    } catch (error) {
+      console.warn('Failed to write transcription cache:', error)
+    }
+  }
+
+  private fileFor(key: string): string {
+    if (!/^[0-9a-f]{64}$/.test(key)) {
+      throw new Error(`Invalid cache key: ${key}`)
+    }
+    return path.join(this.dir, `${key}.json`)
+  }
+}
+
+let cache: FileTranscriptionCache | null = null
+
+// キャッシュが無効な場合は null
+export function getServerTranscriptionCache(): FileTranscriptionCache | null {
+  if (!CACHE_DIR) {
+    return null
+  }
+  cache ??= new FileTranscriptionCache(CACHE_DIR)
+  return cache
+}
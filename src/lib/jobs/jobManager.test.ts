@@ -0,0 +1,66 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import type { Job } from '@/lib/jobs/types'
+
+const HOUR = 60 * 60 * 1000
+
+let storeDir: string
+
+function savedJob(id: string, status: Job['status'], updatedAgo: number): Job {
+  const updatedAt = new Date(Date.now() - updatedAgo).toISOString()
+  return {
+    id,
+    status,
+    fileName: 'audio.mp3',
+    options: {},
+    totalSegments: 2,
+    segments: [{ index: 0, startTime: 0, endTime: 10, status: 'pending', attempts: 0, audioFile: '0-segment.flac', mimeType: 'audio/flac' }],
+    createdAt: updatedAt,
+    updatedAt
+  }
+}
+
+async function save(job: Job) {
+  await fs.mkdir(path.join(storeDir, job.id, 'segments'), { recursive: true })
+  await fs.writeFile(path.join(storeDir, job.id, 'job.json'), JSON.stringify(job))
+  await fs.writeFile(path.join(storeDir, job.id, 'segments', '0-segment.flac'), 'audio')
+}
+
+describe('JobManager の掃除', () => {
+  beforeAll(async () => {
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'))
+    // 保存先はモジュールの読み込み時に決まるため、読み込む前に設定する
+    process.env.JOB_STORE_DIR = storeDir
+  })
+
+  afterAll(async () => {
+    delete process.env.JOB_STORE_DIR
+    await fs.rm(storeDir, { recursive: true, force: true })
+  })
+
+  it('保存期間を過ぎた終了済みのジョブを削除し、アップロードが途絶えたジョブを失敗にする', async () => {
+    await save(savedJob('expired', 'completed', 25 * HOUR))
+    await save(savedJob('recent', 'completed', 1 * HOUR))
+    await save(savedJob('stalled', 'uploading', 2 * HOUR))
+    // 処理待ちのセグメントがあると読み込み後に文字起こしを始めるため、セグメントを持たせない
+    await save({ ...savedJob('uploading', 'uploading', 60 * 1000), segments: [] })
+
+    const { JobManager } = await import('@/lib/jobs/jobManager')
+    const manager = new JobManager()
+
+    expect(await manager.getJob('expired')).toBeUndefined()
+    await expect(fs.stat(path.join(storeDir, 'expired'))).rejects.toThrow()
+    expect((await manager.getJob('recent'))?.status).toBe('completed')
+
+    const stalled = await manager.getJob('stalled')
+    expect(stalled?.status).toBe('failed')
+    expect(stalled?.segments[0]).toMatchObject({ status: 'failed', errorCode: 'ABORTED' })
+    await expect(fs.stat(path.join(storeDir, 'stalled', 'segments'))).rejects.toThrow()
+    const saved: Job = JSON.parse(await fs.readFile(path.join(storeDir, 'stalled', 'job.json'), 'utf8'))
+    expect(saved.status).toBe('failed')
+
+    expect((await manager.getJob('uploading'))?.status).toBe('uploading')
+  })
+})
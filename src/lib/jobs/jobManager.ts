@@ -0,0 +1,452 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { MergeUtils } from '@/utils/mergeUtils'
+import { isAbortError } from '@/utils/abortUtils'
+import { parseRetryAfter } from '@/utils/rateLimiter'
+import { TranscriptionErrorCode, isRetryableCode } from '@/utils/transcriptionErrors'
+import { buildModelLadder, checkTranscriptionQuality, withModel } from '@/utils/modelLadder'
+import type { SegmentTranscriptionResult, TranscriptionGap, TranscriptionResult } from '@/utils/apiUtils'
+import { ProviderError, TranscriptionRequest, getTranscriptionProvider } from '@/lib/providers'
+import { CreateJobRequest, Job, JobEvent, JobSegment, isJobFinished, toJobSnapshot } from '@/lib/jobs/types'
+
+const STORE_DIR = process.env.JOB_STORE_DIR || path.join(process.cwd(), '.data', 'jobs')
+const CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 3
+const MAX_ATTEMPTS = 3
+const RETRY_BASE_DELAY = 2000 // ミリ秒
+const RATE_LIMIT_DELAY = 10000 // 429でRetry-Afterが無いときの待ち時間（ミリ秒）
+const MAX_SEGMENTS = 2000
+const MAX_FALLBACK_MODELS = 3
+// 終わったジョブを残す時間と、アップロードが途絶えたジョブを失敗にするまでの時間（ミリ秒）
+const RETENTION_MS = (Number(process.env.JOB_RETENTION_HOURS) || 24) * 60 * 60 * 1000
+const UPLOAD_TIMEOUT_MS = (Number(process.env.JOB_UPLOAD_TIMEOUT_MINUTES) || 60) * 60 * 1000
+const SWEEP_INTERVAL = 10 * 60 * 1000
+
+// ジョブのHTTPエラー（status は呼び出し元へそのまま返す）
+export class JobError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+    this.name = 'JobError'
+  }
+}
+
+export interface SegmentUpload {
+  index: number
+  startTime: number
+  endTime: number
+  audio: Blob
+  filename: string
+  level?: number // 音量（dBFS）
+}
+
+/**
+ * サーバー側でセグメントのキュー・再試行・結果の統合を行う。
+ * ジョブの状態とアップロードされた音声は STORE_DIR に保存し、サーバー再起動後も続きから処理する。
+ */
+export class JobManager {
+  private readonly jobs = new Map<string, Job>()
+  private loading: Promise<void> | null = null
+  private running = 0
+  private readonly writes = new Map<string, Promise<void>>()
+  private readonly listeners = new Map<string, Set<(event: JobEvent) => void>>()
+  // ジョブを削除したときに処理中の上流リクエストを中断するため
+  private readonly abortControllers = new Map<string, AbortController>()
+
+  static getInstance(): JobManager {
+    // 開発サーバーのホットリロードでキューが二重にならないよう、プロセス全体で1つにする
+    const globalStore = globalThis as typeof globalThis & { __jobManager?: JobManager }
+    if (!globalStore.__jobManager) {
+      globalStore.__jobManager = new JobManager()
+    }
+    return globalStore.__jobManager
+  }
+
+  async createJob(request: CreateJobRequest): Promise<Job> {
+    await this.ensureLoaded()
+
+    if (!request.fileName || !Number.isInteger(request.totalSegments) || request.totalSegments < 1 || request.totalSegments > MAX_SEGMENTS) {
+      throw new JobError('fileName and totalSegments (1-' + MAX_SEGMENTS + ') are required', 400)
+    }
+
+    const now = new Date().toISOString()
+    const job: Job = {
+      id: randomUUID(),
+      status: 'uploading',
+      fileName: request.fileName,
+      options: {
+        language: request.options?.language,
+        model: request.options?.model,
+        prompt: request.options?.prompt,
+        task: request.options?.task === 'translate' ? 'translate' : 'transcribe',
+        fallbackModels: Array.isArray(request.options?.fallbackModels)
+          ? request.options.fallbackModels.filter(model => typeof model === 'string' && model).slice(0, MAX_FALLBACK_MODELS)
+          : []
+      },
+      totalSegments: request.totalSegments,
+      segments: [],
+      createdAt: now,
+      updatedAt: now
+    }
+
+    await fs.mkdir(this.segmentDir(job.id), { recursive: true })
+    this.jobs.set(job.id, job)
+    await this.persist(job)
+    console.log(`Job created: ${job.id} (${job.fileName}, ${job.totalSegments} segments)`)
+    return job
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    await this.ensureLoaded()
+    return this.jobs.get(id)
+  }
+
+  async addSegment(id: string, upload: SegmentUpload): Promise<Job> {
+    const job = await this.requireJob(id)
+    if (job.status !== 'uploading') {
+      throw new JobError(`Job is ${job.status}`, 409)
+    }
+    if (!Number.isInteger(upload.index) || upload.index < 0 || upload.index >= job.totalSegments) {
+      throw new JobError(`Segment index must be between 0 and ${job.totalSegments - 1}`, 400)
+    }
+
+    // 同じセグメントの再送は上書きする（アップロードの再試行に備える）
+    const audioFile = `${upload.index}-${path.basename(upload.filename)}`
+    await fs.writeFile(path.join(this.segmentDir(id), audioFile), Buffer.from(await upload.audio.arrayBuffer()))
+
+    const segment: JobSegment = {
+      index: upload.index,
+      startTime: upload.startTime,
+      endTime: upload.endTime,
+      status: 'pending',
+      attempts: 0,
+      audioFile,
+      mimeType: upload.audio.type,
+      ...(upload.level !== undefined && Number.isFinite(upload.level) ? { level: upload.level } : {})
+    }
+    job.segments = [...job.segments.filter(existing => existing.index !== upload.index), segment]
+      .sort((a, b) => a.index - b.index)
+
+    if (job.segments.length === job.totalSegments) {
+      job.status = 'processing'
+    }
+    this.emit(job, { type: 'queued', index: segment.index, startTime: segment.startTime, endTime: segment.endTime })
+    await this.touch(job)
+    this.pump()
+    return job
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    const job = await this.requireJob(id)
+    // 処理中のリクエストは中断し、完了していても結果を捨てる
+    job.status = 'cancelled'
+    this.abortControllers.get(id)?.abort()
+    this.abortControllers.delete(id)
+    this.emit(job, { type: 'finished', job: toJobSnapshot(job) })
+    this.jobs.delete(id)
+    await this.writes.get(id)
+    await fs.rm(this.jobDir(id), { recursive: true, force: true })
+    console.log(`Job deleted: ${id}`)
+  }
+
+  /**
+   * ジョブのイベントを購読する。戻り値の関数で購読を解除する。
+   */
+  subscribe(id: string, listener: (event: JobEvent) => void): () => void {
+    const listeners = this.listeners.get(id) ?? new Set()
+    listeners.add(listener)
+    this.listeners.set(id, listeners)
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) {
+        this.listeners.delete(id)
+      }
+    }
+  }
+
+  private emit(job: Job, event: JobEvent) {
+    for (const listener of this.listeners.get(job.id) ?? []) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error(`Job ${job.id} event listener failed:`, error)
+      }
+    }
+  }
+
+  private async requireJob(id: string): Promise<Job> {
+    const job = await this.getJob(id)
+    if (!job) {
+      throw new JobError('Job not found', 404)
+    }
+    return job
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load()
+    }
+    return this.loading
+  }
+
+  // 保存済みのジョブを読み込み、処理途中だったセグメントをキューに戻す
+  private async load() {
+    await fs.mkdir(STORE_DIR, { recursive: true })
+    const entries = await fs.readdir(STORE_DIR, { withFileTypes: true })
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue
+      try {
+        const job: Job = JSON.parse(await fs.readFile(path.join(this.jobDir(entry.name), 'job.json'), 'utf8'))
+        for (const segment of job.segments) {
+          if (segment.status === 'processing') {
+            segment.status = 'pending'
+          }
+          delete segment.retryAt
+        }
+        this.jobs.set(job.id, job)
+        // 統合の直前で停止していた場合はここで完了させる
+        if (job.status === 'processing' && job.segments.every(segment => segment.status !== 'pending')) {
+          await this.finalizeIfDone(job)
+          await this.touch(job)
+        }
+      } catch (error) {
+        console.error(`Failed to load job ${entry.name}:`, error)
+      }
+    }
+
+    await this.sweep()
+    console.log(`Loaded ${this.jobs.size} jobs from ${STORE_DIR}`)
+    setTimeout(() => this.pump(), 0)
+    // サーバーの終了を妨げないよう unref する
+    setInterval(() => {
+      this.sweep().catch(error => console.error('Job sweep failed:', error))
+    }, SWEEP_INTERVAL).unref()
+  }
+
+  /**
+   * 保存期間を過ぎた終了済みのジョブを削除し、アップロードが途絶えたジョブを失敗にする。
+   * 失敗にしたジョブも、保存期間が過ぎたら次回以降の掃除で削除する。
+   */
+  private async sweep() {
+    const now = Date.now()
+    for (const job of [...this.jobs.values()]) {
+      const idle = now - Date.parse(job.updatedAt)
+      if (isJobFinished(job) && idle > RETENTION_MS) {
+        this.jobs.delete(job.id)
+        await this.writes.get(job.id)
+        this.writes.delete(job.id)
+        await fs.rm(this.jobDir(job.id), { recursive: true, force: true })
+        console.log(`Job expired: ${job.id}`)
+      } else if (job.status === 'uploading' && idle > UPLOAD_TIMEOUT_MS) {
+        await this.failStaleUpload(job)
+      }
+    }
+  }
+
+  // すべてのセグメントが届かないまま放置されたジョブは、統合されないため失敗として終える
+  private async failStaleUpload(job: Job) {
+    job.status = 'failed'
+    job.error = 'セグメントのアップロードが完了しませんでした'
+    this.abortControllers.get(job.id)?.abort()
+    this.abortControllers.delete(job.id)
+    for (const segment of job.segments) {
+      if (segment.status === 'pending' || segment.status === 'processing') {
+        segment.status = 'failed'
+        segment.error = job.error
+        segment.errorCode = 'ABORTED'
+        delete segment.retryAt
+      }
+      delete segment.audioFile
+    }
+    await fs.rm(this.segmentDir(job.id), { recursive: true, force: true })
+    this.emit(job, { type: 'finished', job: toJobSnapshot(job) })
+    await this.touch(job)
+    console.warn(`Job ${job.id} failed: upload stalled (${job.segments.length}/${job.totalSegments} segments)`)
+  }
+
+  // 空きがある限り、古いジョブのセグメントから順に処理を始める
+  private pump() {
+    const now = Date.now()
+    for (const job of this.jobs.values()) {
+      if (job.status !== 'processing' && job.status !== 'uploading') continue
+      for (const segment of job.segments) {
+        if (this.running >= CONCURRENCY) return
+        if (segment.status !== 'pending' || (segment.retryAt && segment.retryAt > now)) continue
+        this.running++
+        this.processSegment(job, segment)
+          .catch(error => console.error(`Job ${job.id} segment ${segment.index} crashed:`, error))
+          .finally(() => {
+            this.running--
+            this.pump()
+          })
+      }
+    }
+  }
+
+  private async processSegment(job: Job, segment: JobSegment) {
+    segment.status = 'processing'
+    segment.attempts++
+    delete segment.retryAt
+    this.emit(job, { type: 'started', index: segment.index, attempt: segment.attempts })
+    await this.touch(job)
+
+    try {
+      const audio = await fs.readFile(path.join(this.segmentDir(job.id), segment.audioFile!))
+      const result = await this.transcribeWithFallback(job, segment, {
+        file: new Blob([audio], { type: segment.mimeType }),
+        filename: segment.audioFile!.replace(/^\d+-/, ''),
+        language: job.options.language === 'auto' ? undefined : job.options.language,
+        prompt: job.options.prompt,
+        task: job.options.task,
+        signal: this.abortSignalFor(job.id)
+      })
+      if (isJobFinished(job)) return
+
+      segment.status = 'succeeded'
+      segment.result = result
+      delete segment.error
+      delete segment.errorCode
+      this.emit(job, {
+        type: 'succeeded',
+        index: segment.index,
+        startTime: segment.startTime,
+        endTime: segment.endTime,
+        text: result.text,
+        result
+      })
+      console.log(`Job ${job.id} segment ${segment.index} succeeded (attempt ${segment.attempts})`)
+    } catch (error) {
+      if (isJobFinished(job) || isAbortError(error)) return
+
+      const message = error instanceof Error ? error.message : String(error)
+      const code: TranscriptionErrorCode = error instanceof ProviderError ? error.code : 'INTERNAL'
+      segment.error = message
+      segment.errorCode = code
+      // 認証エラーなど再試行しても変わらないエラーは、すぐに失敗とする
+      if (segment.attempts < MAX_ATTEMPTS && isRetryableCode(code)) {
+        const retryAfter = error instanceof ProviderError ? parseRetryAfter(error.rateLimitHeaders['retry-after']) : undefined
+        const delay = code === 'RATE_LIMITED'
+          ? retryAfter ?? RATE_LIMIT_DELAY
+          : RETRY_BASE_DELAY * Math.pow(2, segment.attempts - 1)
+        segment.status = 'pending'
+        segment.retryAt = Date.now() + delay
+        setTimeout(() => this.pump(), delay)
+        this.emit(job, { type: 'retrying', index: segment.index, attempt: segment.attempts, code, reason: message, delayMs: delay })
+        console.warn(`Job ${job.id} segment ${segment.index} failed, retrying in ${delay}ms: ${message}`)
+      } else {
+        segment.status = 'failed'
+        this.emit(job, { type: 'failed', index: segment.index, code, reason: message })
+        console.error(`Job ${job.id} segment ${segment.index} failed: ${message}`)
+      }
+    }
+
+    await this.finalizeIfDone(job)
+    await this.touch(job)
+  }
+
+  /**
+   * 品質チェックに通らなかった場合は予備のモデルで処理し直す（予備のモデルで失敗したら、それまでの結果を使う）。
+   * モデルを選べないプロバイダーでは、送り直しても同じモデルで処理されるため1回だけ送る。
+   */
+  private async transcribeWithFallback(job: Job, segment: JobSegment, request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const provider = getTranscriptionProvider()
+    if (!provider.supportsModelSelection) {
+      return provider.transcribe(request)
+    }
+    const ladder = buildModelLadder(job.options.model, job.options.fallbackModels)
+    let result = withModel(await provider.transcribe({ ...request, model: ladder[0] }), ladder[0])
+
+    for (let step = 1; step < ladder.length; step++) {
+      const issues = checkTranscriptionQuality(result, segment.level)
+      if (issues.length === 0) break
+      if (result.model === ladder[step]) continue
+
+      console.log(`Job ${job.id} segment ${segment.index} failed quality check (${issues.join(', ')}), retrying with ${ladder[step]}`)
+      try {
+        result = withModel(await provider.transcribe({ ...request, model: ladder[step] }), ladder[step])
+      } catch (error) {
+        if (job.status === 'cancelled' || isAbortError(error)) throw error
+        console.warn(`Job ${job.id} segment ${segment.index} fallback to ${ladder[step]} failed:`, error)
+        break
+      }
+    }
+    return result
+  }
+
+  // すべてのセグメントが終わったら結果を統合し、アップロードされた音声を削除する
+  private async finalizeIfDone(job: Job) {
+    if (job.status !== 'processing') return
+    if (job.segments.some(segment => segment.status === 'pending' || segment.status === 'processing')) return
+
+    const results: SegmentTranscriptionResult[] = job.segments
+      .filter(segment => segment.status === 'succeeded' && segment.result)
+      .map(segment => ({
+        ...segment.result!,
+        index: segment.index,
+        startTime: segment.startTime,
+        endTime: segment.endTime
+      }))
+
+    // 失敗したセグメントは欠落区間として結果に残す
+    const gaps: TranscriptionGap[] = job.segments
+      .filter(segment => segment.status === 'failed')
+      .map(segment => ({
+        index: segment.index,
+        start: segment.startTime,
+        end: segment.endTime,
+        code: segment.errorCode ?? 'INTERNAL'
+      }))
+
+    if (results.length === 0) {
+      job.status = 'failed'
+      job.error = 'すべてのセグメントの文字起こしに失敗しました'
+    } else {
+      job.status = 'completed'
+      job.result = MergeUtils.mergeResults(results, gaps)
+    }
+
+    for (const segment of job.segments) {
+      delete segment.audioFile
+    }
+    await fs.rm(this.segmentDir(job.id), { recursive: true, force: true })
+    this.abortControllers.delete(job.id)
+    this.emit(job, { type: 'finished', job: toJobSnapshot(job) })
+    console.log(`Job ${job.id} ${job.status}: ${results.length}/${job.totalSegments} segments succeeded`)
+  }
+
+  private abortSignalFor(id: string): AbortSignal {
+    let controller = this.abortControllers.get(id)
+    if (!controller) {
+      controller = new AbortController()
+      this.abortControllers.set(id, controller)
+    }
+    return controller.signal
+  }
+
+  private async touch(job: Job) {
+    job.updatedAt = new Date().toISOString()
+    await this.persist(job)
+  }
+
+  // 同じジョブへの書き込みは順番に行い、一時ファイルからの置き換えで途中状態を残さない
+  private persist(job: Job): Promise<void> {
+    const previous = this.writes.get(job.id) ?? Promise.resolve()
+    const write = previous.then(async () => {
+      if (!this.jobs.has(job.id)) return
+      const file = path.join(this.jobDir(job.id), 'job.json')
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(job))
+      await fs.rename(`${file}.tmp`, file)
+    }).catch(error => console.error(`Failed to save job ${job.id}:`, error))
+    this.writes.set(job.id, write)
+    return write
+  }
+
+  private jobDir(id: string): string {
+    return path.join(STORE_DIR, id)
+  }
+
+  private segmentDir(id: string): string {
+    return path.join(this.jobDir(id), 'segments')
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { JobError } from '@/lib/jobs/jobManager'
+
+// ジョブAPIで共通のエラーレスポンス
+export function jobErrorResponse(error: unknown): NextResponse {
+  if (error instanceof JobError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+
+  console.error('Job API error:', error)
+  return NextResponse.json(
+    { error: 'Internal server error. Please try again later.' },
+    { status: 500 }
+  )
+}
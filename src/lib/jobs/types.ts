@@ -0,0 +1,89 @@
+import type { TranscriptionResult, TranscriptionTask } from '@/utils/apiUtils'
+import type { TranscriptionErrorCode } from '@/utils/transcriptionErrors'
+
+export type JobStatus = 'uploading' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+export type JobSegmentStatus = 'pending' | 'processing' | 'succeeded' | 'failed'
+
+export interface JobOptions {
+  language?: string
+  model?: string
+  prompt?: string // すべてのセグメントで使うプロンプト（用語集）
+  task?: TranscriptionTask
+  fallbackModels?: string[] // 品質チェックに通らなかったセグメントを、順に処理し直すモデル
+}
+
+export interface JobSegment {
+  index: number
+  startTime: number
+  endTime: number
+  status: JobSegmentStatus
+  attempts: number
+  error?: string
+  errorCode?: TranscriptionErrorCode
+  retryAt?: number // 再試行を待っている場合の再開時刻（ミリ秒）
+  audioFile?: string // 保存したセグメント音声のファイル名（完了後は削除）
+  mimeType?: string
+  level?: number // 音量（dBFS）。品質チェックで無音かどうかの判断に使う
+  result?: TranscriptionResult
+}
+
+export interface Job {
+  id: string
+  status: JobStatus
+  fileName: string
+  options: JobOptions
+  totalSegments: number
+  segments: JobSegment[]
+  result?: TranscriptionResult
+  error?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// APIで返すジョブの状態（セグメントごとの結果はテキストのみ、内部情報は含めない）
+export type JobSnapshot = Omit<Job, 'segments'> & {
+  segments: (Omit<JobSegment, 'result' | 'audioFile' | 'mimeType'> & { text?: string })[]
+  completedSegments: number
+}
+
+/**
+ * /api/jobs/[id]/events で配信するイベント。
+ * 接続直後に snapshot、ジョブが終わると finished を送る（finished の後に接続は閉じる）。
+ */
+export type JobEvent =
+  | { type: 'snapshot'; job: JobSnapshot }
+  | { type: 'queued'; index: number; startTime: number; endTime: number }
+  | { type: 'started'; index: number; attempt: number }
+  | { type: 'retrying'; index: number; attempt: number; code: TranscriptionErrorCode; reason: string; delayMs: number }
+  | { type: 'succeeded'; index: number; startTime: number; endTime: number; text: string; result: TranscriptionResult }
+  | { type: 'failed'; index: number; code: TranscriptionErrorCode; reason: string }
+  | { type: 'finished'; job: JobSnapshot }
+
+export interface CreateJobRequest {
+  fileName: string
+  totalSegments: number
+  options?: JobOptions
+}
+
+export function toJobSnapshot(job: Job): JobSnapshot {
+  return {
+    ...job,
+    segments: job.segments.map(segment => ({
+      index: segment.index,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      status: segment.status,
+      attempts: segment.attempts,
+      error: segment.error,
+      errorCode: segment.errorCode,
+      retryAt: segment.retryAt,
+      text: segment.result?.text
+    })),
+    completedSegments: job.segments.filter(segment => segment.status === 'succeeded' || segment.status === 'failed').length
+  }
+}
+
+export function isJobFinished(job: Pick<Job, 'status'>): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled'
+}
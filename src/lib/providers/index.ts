@@ -0,0 +1,97 @@
+import { OpenAICompatibleProvider } from '@/lib/providers/openaiCompatible'
+import { WhisperCppProvider } from '@/lib/providers/whisperCpp'
+import { ProviderError, TranscriptionProvider, TranscriptionProviderId } from '@/lib/providers/types'
+
+export { ProviderError, resolveModelName } from '@/lib/providers/types'
+export type {
+  TranscriptionProvider,
+  TranscriptionProviderId,
+  TranscriptionProviderInfo,
+  TranscriptionRequest
+} from '@/lib/providers/types'
+
+const GROQ_API_URL = 'https://api.groq.com/openai/v1/audio/transcriptions'
+const GROQ_TRANSLATION_URL = 'https://api.groq.com/openai/v1/audio/translations'
+const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1'
+const WHISPER_CPP_DEFAULT_URL = 'http://127.0.0.1:8080'
+
+const PROVIDER_IDS: TranscriptionProviderId[] = ['groq', 'openai', 'whisper-cpp']
+
+let cachedProvider: TranscriptionProvider | null = null
+
+/**
+ * 環境変数 TRANSCRIPTION_PROVIDER で選ばれたプロバイダーを返す（未設定ならGroq）。
+ *
+ * - groq: GROQ_API_KEY
+ * - openai: OPENAI_API_KEY, OPENAI_BASE_URL（OpenAI互換サーバーのURL）, OPENAI_TRANSCRIPTION_MODEL
+ * - whisper-cpp: WHISPER_CPP_URL, WHISPER_CPP_MODEL（サーバーが読み込んだモデルの名前）
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (cachedProvider) {
+    return cachedProvider
+  }
+
+  const id = (process.env.TRANSCRIPTION_PROVIDER || 'groq') as TranscriptionProviderId
+  if (!PROVIDER_IDS.includes(id)) {
+    throw new ProviderError(
+      `Unknown TRANSCRIPTION_PROVIDER "${id}". Use one of: ${PROVIDER_IDS.join(', ')}`,
+      500,
+      { code: 'NOT_CONFIGURED' }
+    )
+  }
+
+  cachedProvider = createProvider(id)
+  console.log(`Transcription provider: ${cachedProvider.label}`)
+  return cachedProvider
+}
+
+function createProvider(id: TranscriptionProviderId): TranscriptionProvider {
+  switch (id) {
+    case 'groq': {
+      const apiKey = process.env.GROQ_API_KEY
+      if (!apiKey) {
+        throw new ProviderError(
+          'Groq API key is not configured. Please set GROQ_API_KEY environment variable in Vercel.',
+          500,
+          { code: 'NOT_CONFIGURED' }
+        )
+      }
+      return new OpenAICompatibleProvider({
+        id,
+        label: 'Groq',
+        url: GROQ_API_URL,
+        translationUrl: GROQ_TRANSLATION_URL,
+        apiKey,
+        apiKeyEnv: 'GROQ_API_KEY',
+        defaultModel: 'whisper-large-v3-turbo',
+        // turbo は翻訳に対応していない
+        translationModel: 'whisper-large-v3'
+      })
+    }
+
+    case 'openai': {
+      const baseUrl = (process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL).replace(/\/$/, '')
+      const apiKey = process.env.OPENAI_API_KEY
+      // 自前のOpenAI互換サーバーではAPIキーが不要な場合がある
+      if (!apiKey && baseUrl === OPENAI_DEFAULT_BASE_URL) {
+        throw new ProviderError(
+          'OpenAI API key is not configured. Please set OPENAI_API_KEY environment variable.',
+          500,
+          { code: 'NOT_CONFIGURED' }
+        )
+      }
+      return new OpenAICompatibleProvider({
+        id,
+        label: baseUrl === OPENAI_DEFAULT_BASE_URL ? 'OpenAI' : 'OpenAI互換サーバー',
+        url: `${baseUrl}/audio/transcriptions`,
+        translationUrl: `${baseUrl}/audio/translations`,
+        apiKey,
+        apiKeyEnv: 'OPENAI_API_KEY',
+        defaultModel: process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1'
+      })
+    }
+
+    case 'whisper-cpp':
+      return new WhisperCppProvider(process.env.WHISPER_CPP_URL || WHISPER_CPP_DEFAULT_URL, process.env.WHISPER_CPP_MODEL || undefined)
+  }
+}
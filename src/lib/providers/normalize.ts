@@ -0,0 +1,64 @@
+import type { TranscriptionResult, TranscriptionSegment, TranscriptionWord } from '@/utils/apiUtils'
+
+interface RawWord {
+  word?: string
+  text?: string
+  start?: number
+  end?: number
+}
+
+interface RawSegment {
+  id?: number
+  seek?: number
+  start?: number
+  end?: number
+  text?: string
+  tokens?: number[]
+  temperature?: number
+  avg_logprob?: number
+  compression_ratio?: number
+  no_speech_prob?: number
+  words?: RawWord[]
+}
+
+export interface RawTranscription {
+  text?: string
+  language?: string
+  duration?: number
+  segments?: RawSegment[]
+  words?: RawWord[]
+}
+
+/**
+ * verbose_json 形式のレスポンスを TranscriptionResult に揃える。
+ * サーバーによって欠けている項目は既定値で補い、単語がセグメント内にしかない場合は平坦化する。
+ */
+export function normalizeTranscription(raw: RawTranscription, fallbackLanguage?: string): TranscriptionResult {
+  const segments: TranscriptionSegment[] = (raw.segments ?? []).map((segment, index) => ({
+    id: segment.id ?? index,
+    seek: segment.seek ?? 0,
+    start: segment.start ?? 0,
+    end: segment.end ?? segment.start ?? 0,
+    text: segment.text ?? '',
+    tokens: segment.tokens ?? [],
+    temperature: segment.temperature ?? 0,
+    avg_logprob: segment.avg_logprob ?? 0,
+    compression_ratio: segment.compression_ratio ?? 0,
+    no_speech_prob: segment.no_speech_prob ?? 0
+  }))
+
+  const rawWords = raw.words ?? (raw.segments ?? []).flatMap(segment => segment.words ?? [])
+  const words: TranscriptionWord[] = rawWords.map(word => ({
+    word: word.word ?? word.text ?? '',
+    start: word.start ?? 0,
+    end: word.end ?? word.start ?? 0
+  }))
+
+  return {
+    text: raw.text ?? segments.map(segment => segment.text).join(''),
+    segments,
+    words,
+    language: raw.language ?? fallbackLanguage ?? '',
+    duration: raw.duration ?? segments[segments.length - 1]?.end ?? 0
+  }
+}
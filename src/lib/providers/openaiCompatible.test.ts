@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { OpenAICompatibleProvider } from '@/lib/providers/openaiCompatible'
+import { ProviderError } from '@/lib/providers/types'
+
+const provider = new OpenAICompatibleProvider({
+  id: 'openai',
+  label: 'Test',
+  url: 'http://127.0.0.1:9/v1/audio/transcriptions',
+  translationUrl: 'http://127.0.0.1:9/v1/audio/translations',
+  defaultModel: 'whisper-1'
+})
+
+const request = { file: new Blob(['audio']), filename: 'segment.flac' }
+
+describe('OpenAICompatibleProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('接続できない場合は UPSTREAM_UNAVAILABLE の ProviderError にする', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')))
+
+    const error = await provider.transcribe(request).catch(caught => caught)
+
+    expect(error).toBeInstanceOf(ProviderError)
+    expect(error.status).toBe(502)
+    expect(error.code).toBe('UPSTREAM_UNAVAILABLE')
+    expect(error.retryable).toBe(true)
+  })
+
+  it('中断はそのまま返す', async () => {
+    const abort = new DOMException('The operation was aborted.', 'AbortError')
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(abort))
+
+    await expect(provider.transcribe(request)).rejects.toBe(abort)
+  })
+})
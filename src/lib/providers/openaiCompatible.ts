@@ -0,0 +1,101 @@
+import type { TranscriptionResult } from '@/utils/apiUtils'
+import { isAbortError } from '@/utils/abortUtils'
+import { pickRateLimitHeaders } from '@/utils/rateLimiter'
+import { RawTranscription, normalizeTranscription } from '@/lib/providers/normalize'
+import {
+  ProviderError,
+  TranscriptionProvider,
+  TranscriptionProviderId,
+  TranscriptionRequest,
+  resolveModelName
+} from '@/lib/providers/types'
+
+export interface OpenAICompatibleConfig {
+  id: TranscriptionProviderId
+  label: string
+  url: string // .../audio/transcriptions のURL
+  translationUrl: string // .../audio/translations のURL
+  apiKey?: string
+  apiKeyEnv?: string
+  defaultModel: string
+  translationModel?: string // 翻訳に対応していない既定モデルの場合に指定する
+}
+
+/**
+ * OpenAI互換の /audio/transcriptions エンドポイント（Groq、OpenAI、faster-whisper系サーバーなど）。
+ * 翻訳の場合は /audio/translations を使う。
+ */
+export class OpenAICompatibleProvider implements TranscriptionProvider {
+  readonly id: TranscriptionProviderId
+  readonly label: string
+  readonly apiKeyEnv?: string
+  readonly supportsModelSelection = true
+  readonly defaultModel: string
+  readonly translationModel?: string
+
+  constructor(private readonly config: OpenAICompatibleConfig) {
+    this.id = config.id
+    this.label = config.label
+    this.apiKeyEnv = config.apiKeyEnv
+    this.defaultModel = config.defaultModel
+    this.translationModel = config.translationModel
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const task = request.task ?? 'transcribe'
+    const model = resolveModelName(this, request.model, task)!
+    const formData = new FormData()
+    formData.append('file', request.file, request.filename)
+    formData.append('model', model)
+    if (request.prompt) {
+      formData.append('prompt', request.prompt)
+    }
+    formData.append('response_format', 'verbose_json')
+    // 翻訳の出力は英語のみで、元の言語と単語単位のタイムスタンプは指定できない
+    if (task === 'transcribe') {
+      if (request.language) {
+        formData.append('language', request.language)
+      }
+      formData.append('timestamp_granularities[]', 'segment')
+      formData.append('timestamp_granularities[]', 'word')
+    }
+
+    const headers: Record<string, string> = {}
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`
+    }
+
+    const url = task === 'translate' ? this.config.translationUrl : this.config.url
+    let response: Response
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: formData,
+        signal: request.signal,
+      })
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error
+      }
+      console.error(`${this.label} connection error:`, error)
+      throw new ProviderError(`${this.label} API is not reachable at ${url}`, 502)
+    }
+
+    const rateLimitHeaders = pickRateLimitHeaders(response.headers)
+    request.onRateLimit?.(rateLimitHeaders)
+
+    if (!response.ok) {
+      const errorData = await response.text()
+      console.error(`${this.label} API Error:`, errorData)
+      throw new ProviderError(
+        `${this.label} API error: ${response.status} ${response.statusText}`,
+        response.status,
+        { detail: errorData, rateLimitHeaders }
+      )
+    }
+
+    const result: RawTranscription = await response.json()
+    return { ...normalizeTranscription(result, request.language), task, model }
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { resolveModelName } from '@/lib/providers/types'
+
+const groq = { supportsModelSelection: true, defaultModel: 'whisper-large-v3-turbo', translationModel: 'whisper-large-v3' }
+
+describe('resolveModelName', () => {
+  it('モデルが省略された場合は既定のモデル名にする', () => {
+    expect(resolveModelName(groq, undefined)).toBe('whisper-large-v3-turbo')
+    expect(resolveModelName(groq, 'whisper-large-v3')).toBe('whisper-large-v3')
+  })
+
+  it('翻訳で既定のモデルになる場合は翻訳用のモデルにする', () => {
+    expect(resolveModelName(groq, undefined, 'translate')).toBe('whisper-large-v3')
+    expect(resolveModelName(groq, 'whisper-large-v3-turbo', 'translate')).toBe('whisper-large-v3')
+  })
+
+  it('モデルを選べないプロバイダーでは指定を無視する', () => {
+    expect(resolveModelName({ supportsModelSelection: false, defaultModel: 'ggml-large-v3' }, 'whisper-1')).toBe('ggml-large-v3')
+    expect(resolveModelName({ supportsModelSelection: false }, 'whisper-1')).toBeUndefined()
+  })
+})
@@ -0,0 +1,80 @@
+import type { TranscriptionResult, TranscriptionTask } from '@/utils/apiUtils'
+import { TranscriptionErrorCode, codeFromStatus, isRetryableCode } from '@/utils/transcriptionErrors'
+
+export type TranscriptionProviderId = 'groq' | 'openai' | 'whisper-cpp'
+
+export interface TranscriptionRequest {
+  file: Blob
+  filename: string
+  language?: string // 省略時は自動検出
+  model?: string // 省略時はプロバイダーの既定モデル
+  prompt?: string // 用語集や前の文脈（Whisperの initial prompt）
+  task?: TranscriptionTask // translate の場合は英語に翻訳する（省略時は transcribe）
+  signal?: AbortSignal // 中断されたら上流へのリクエストも中断する
+  onRateLimit?: (headers: Record<string, string>) => void // 上流のレート制限ヘッダーを受け取る（成功・失敗とも）
+}
+
+/**
+ * 文字起こしAPIの実装。レスポンスは必ず TranscriptionResult の形に変換して返す。
+ */
+export interface TranscriptionProvider {
+  readonly id: TranscriptionProviderId
+  readonly label: string
+  readonly supportsModelSelection: boolean // false の場合、リクエストのモデル指定は使わない（予備のモデルでの再処理もしない）
+  readonly defaultModel?: string // モデルが省略された場合に使うモデル（分からない場合は省略）
+  readonly translationModel?: string // 既定のモデルが翻訳に対応していない場合に、翻訳で使うモデル
+  readonly apiKeyEnv?: string // APIキーを設定する環境変数名（エラーメッセージ用）
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> // 結果の task にはリクエストの task を入れる
+}
+
+// GET /api/transcribe が返す、サーバーで使っているプロバイダーの情報
+export interface TranscriptionProviderInfo {
+  id: TranscriptionProviderId
+  label: string
+  supportsModelSelection: boolean
+  defaultModel?: string
+  translationModel?: string
+}
+
+type ModelSettings = Pick<TranscriptionProviderInfo, 'supportsModelSelection' | 'defaultModel' | 'translationModel'>
+
+/**
+ * 実際に処理に使われるモデル名。サーバーの既定のモデル（省略）も名前にするため、キャッシュのキーや記録に使える。
+ * 翻訳で既定のモデルが指定された場合は、翻訳用のモデルに置き換える。分からない場合は undefined。
+ */
+export function resolveModelName(
+  settings: ModelSettings,
+  requested: string | undefined,
+  task: TranscriptionTask = 'transcribe'
+): string | undefined {
+  const model = (settings.supportsModelSelection && requested) || settings.defaultModel
+  if (task === 'translate' && settings.translationModel && model === settings.defaultModel) {
+    return settings.translationModel
+  }
+  return model
+}
+
+export interface ProviderErrorOptions {
+  detail?: string // 上流のレスポンス本文
+  rateLimitHeaders?: Record<string, string>
+  code?: TranscriptionErrorCode // 省略時は status から決める
+}
+
+// プロバイダーのHTTPエラー（status は呼び出し元へそのまま返す）
+export class ProviderError extends Error {
+  readonly code: TranscriptionErrorCode
+  readonly detail?: string
+  readonly rateLimitHeaders: Record<string, string>
+
+  constructor(message: string, readonly status: number, options: ProviderErrorOptions = {}) {
+    super(message)
+    this.name = 'ProviderError'
+    this.code = options.code ?? codeFromStatus(status)
+    this.detail = options.detail
+    this.rateLimitHeaders = options.rateLimitHeaders ?? {}
+  }
+
+  get retryable(): boolean {
+    return isRetryableCode(this.code)
+  }
+}
@@ -0,0 +1,60 @@
+import type { TranscriptionResult } from '@/utils/apiUtils'
+import { isAbortError } from '@/utils/abortUtils'
+import { RawTranscription, normalizeTranscription } from '@/lib/providers/normalize'
+import { ProviderError, TranscriptionProvider, TranscriptionRequest } from '@/lib/providers/types'
+
+/**
+ * 自前で動かす whisper.cpp サーバー（examples/server）の /inference エンドポイント。
+ * モデルはサーバー起動時に決まるため、リクエストのモデル指定は使わない。
+ */
+export class WhisperCppProvider implements TranscriptionProvider {
+  readonly id = 'whisper-cpp' as const
+  readonly label = 'whisper.cpp'
+  readonly supportsModelSelection = false
+
+  // defaultModel はサーバーが読み込んだモデルの名前（設定した場合のみ、キャッシュのキーと結果に記録する）
+  constructor(private readonly baseUrl: string, readonly defaultModel?: string) {}
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+    const formData = new FormData()
+    formData.append('file', request.file, request.filename)
+    formData.append('response_format', 'verbose_json')
+    formData.append('temperature', '0')
+    formData.append('language', request.language || 'auto')
+    if (request.prompt) {
+      formData.append('prompt', request.prompt)
+    }
+    if (request.task === 'translate') {
+      formData.append('translate', 'true')
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/inference`, {
+        method: 'POST',
+        body: formData,
+        signal: request.signal,
+      })
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error
+      }
+      console.error('whisper.cpp connection error:', error)
+      throw new ProviderError(`whisper.cpp server is not reachable at ${this.baseUrl}`, 502)
+    }
+
+    if (!response.ok) {
+      const errorData = await response.text()
+      console.error('whisper.cpp Error:', errorData)
+      throw new ProviderError(`whisper.cpp error: ${response.status} ${response.statusText}`, response.status, { detail: errorData })
+    }
+
+    const result: RawTranscription = await response.json()
+    // モデルはサーバー側で決まり、レスポンスにも含まれないため、設定された名前だけを記録する
+    return {
+      ...normalizeTranscription(result, request.language),
+      task: request.task ?? 'transcribe',
+      ...(this.defaultModel ? { model: this.defaultModel } : {})
+    }
+  }
+}
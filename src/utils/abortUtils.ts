@@ -0,0 +1,38 @@
+// 処理の中断（AbortSignal）を扱う共通処理
+
+// fetch が中断されたときと同じ AbortError を作る
+export function createAbortError(): DOMException {
+  return new DOMException('処理を中断しました', 'AbortError')
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError'
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw createAbortError()
+  }
+}
+
+/**
+ * 指定した時間だけ待つ。signal が中断されたら待機をやめて AbortError で失敗する。
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError())
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createAbortError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
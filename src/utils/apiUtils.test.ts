@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { GroqAPIClient, TranscriptionResult } from '@/utils/apiUtils'
+
+// 品質チェックに通らない（確信度が低い）結果
+const poorResult: TranscriptionResult = {
+  text: 'えー',
+  segments: [{
+    id: 0,
+    seek: 0,
+    start: 0,
+    end: 5,
+    text: 'えー',
+    tokens: [],
+    temperature: 0,
+    avg_logprob: -1.5,
+    compression_ratio: 1,
+    no_speech_prob: 0.1
+  }],
+  words: [],
+  language: 'ja',
+  duration: 5
+}
+
+const segment = { blob: new Blob(['audio'], { type: 'audio/flac' }), index: 0, startTime: 0, endTime: 5 }
+
+function mockServer(supportsModelSelection: boolean) {
+  const posted: (string | null)[] = []
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    if (!init?.method || init.method === 'GET') {
+      return Response.json({ id: 'test', label: 'Test', supportsModelSelection })
+    }
+    const model = (init.body as FormData).get('model') as string | null
+    posted.push(model)
+    return Response.json({ ...poorResult, model: model ?? 'default-model' })
+  })
+  vi.stubGlobal('fetch', fetchMock)
+  return posted
+}
+
+describe('GroqAPIClient.transcribeMultipleSegments', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('品質チェックに通らないセグメントを予備のモデルで処理し直す', async () => {
+    const posted = mockServer(true)
+
+    const [outcome] = await new GroqAPIClient().transcribeMultipleSegments([segment], { fallbackModels: ['whisper-large-v3'] })
+
+    expect(posted).toEqual([null, 'whisper-large-v3'])
+    expect(outcome.result?.model).toBe('whisper-large-v3')
+  })
+
+  it('モデルを選べないサーバーでは予備のモデルで送り直さない', async () => {
+    const posted = mockServer(false)
+
+    const [outcome] = await new GroqAPIClient().transcribeMultipleSegments(
+      [segment],
+      { model: 'whisper-large-v3-turbo', fallbackModels: ['whisper-large-v3'] }
+    )
+
+    expect(posted).toEqual([null])
+    expect(outcome.result?.text).toBe('えー')
+  })
+})
+
+describe('GroqAPIClient.transcribeAudio', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  function mockErrorResponse(status: number, headers: Record<string, string> = {}) {
+    const fetchMock = vi.fn(async () => Response.json({ error: `HTTP ${status}` }, { status, headers }))
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+  }
+
+  it('レート制限が続く場合は再試行の上限で止める', async () => {
+    vi.useFakeTimers()
+    const fetchMock = mockErrorResponse(429, { 'retry-after': '0' })
+
+    const result = expect(new GroqAPIClient().transcribeAudio(segment.blob)).rejects.toMatchObject({ code: 'RATE_LIMITED' })
+    // 再開直後の1件以降は、リクエスト数のトークンが回復するまで待つ
+    await vi.runAllTimersAsync()
+    await result
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+  })
+
+  it('呼び出し側で使った再試行の回数も上限に含める', async () => {
+    const fetchMock = mockErrorResponse(429, { 'retry-after': '0' })
+
+    await expect(new GroqAPIClient().transcribeAudio(segment.blob, {}, 2)).rejects.toMatchObject({ code: 'RATE_LIMITED' })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('再試行しても変わらないエラーは再試行しない', async () => {
+    const fetchMock = mockErrorResponse(401)
+
+    await expect(new GroqAPIClient().transcribeAudio(segment.blob)).rejects.toMatchObject({ code: 'AUTH_INVALID' })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
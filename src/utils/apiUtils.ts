@@ -1,3 +1,20 @@
+import { MergeUtils } from '@/utils/mergeUtils'
+import { getUploadFilename } from '@/utils/audioEncoding'
+import type { EncodingProfileId, SegmentContainer } from '@/utils/audioEncoding'
+import type { PreprocessingOptions } from '@/utils/audioPreprocessing'
+import { createAbortError, delay, isAbortError, throwIfAborted } from '@/utils/abortUtils'
+import { RateLimiter, parseRetryAfter } from '@/utils/rateLimiter'
+import { buildPrompt } from '@/utils/promptUtils'
+import { buildModelLadder, checkTranscriptionQuality, withModel } from '@/utils/modelLadder'
+import type { TranscriptionCache } from '@/utils/transcriptionCache'
+import { TranscriptionProviderInfo, resolveModelName } from '@/lib/providers/types'
+import {
+  TranscriptionError,
+  TranscriptionErrorCode,
+  isRetryableError,
+  toTranscriptionError
+} from '@/utils/transcriptionErrors'
+
 export interface TranscriptionSegment {
   id: number
   seek: number
@@ -9,6 +26,7 @@ export interface TranscriptionSegment {
   avg_logprob: number
   compression_ratio: number
   no_speech_prob: number
+  model?: string // このセグメントを処理したモデル
 }
 
 export interface TranscriptionWord {
@@ -17,117 +35,301 @@ export interface TranscriptionWord {
   end: number
 }
 
+// 幻聴（音声に無い文字起こし）が疑われる理由
+export type HallucinationReason = 'no_speech' | 'repetition' | 'blacklist'
+
+// 幻聴が疑われるセグメント（元の音声の位置、秒）
+export interface HallucinationFlag {
+  start: number
+  end: number
+  text: string
+  reasons: HallucinationReason[]
+  removed: boolean // 結果から取り除いた（false の場合は印を付けて残している）
+}
+
+// 文字起こし（音声と同じ言語）か、英語への翻訳か
+export type TranscriptionTask = 'transcribe' | 'translate'
+
+// 文字起こし結果に付ける処理条件の記録（セグメントを処理し直すときに同じ条件で切り出す）
+export interface TranscriptionMetadata {
+  preprocessing?: PreprocessingOptions
+  encodingProfile?: EncodingProfileId
+  container?: SegmentContainer
+  language?: string // 指定した言語（auto は自動検出）。失敗したセグメントの再試行で使う
+}
+
+// 文字起こしに失敗した区間（元の音声の位置、秒）
+export interface TranscriptionGap {
+  index: number // 失敗したセグメントの番号
+  start: number
+  end: number
+  code: TranscriptionErrorCode
+}
+
 export interface TranscriptionResult {
   text: string
   segments: TranscriptionSegment[]
   words: TranscriptionWord[]
   language: string
   duration: number
+  task?: TranscriptionTask // 省略時は transcribe
+  model?: string // 処理したモデル（セグメントごとに異なる場合は各セグメントの model を見る）
+  gaps?: TranscriptionGap[] // 失敗したセグメントがある場合のみ
+  flagged?: HallucinationFlag[] // 幻聴フィルターで見つかった場合のみ
+  metadata?: TranscriptionMetadata
+}
+
+export type SegmentTranscriptionResult = TranscriptionResult & { index: number; startTime: number; endTime: number }
+
+// セグメントごとの処理結果（result か error のどちらか一方を持つ）
+export interface SegmentOutcome {
+  index: number
+  startTime: number
+  endTime: number
+  result?: SegmentTranscriptionResult
+  error?: TranscriptionError
+  cached?: boolean // キャッシュの結果を使い、送信しなかった
+}
+
+export interface TranscriptionSegmentInput {
+  blob: Blob
+  index: number
+  startTime: number
+  endTime: number
+  level?: number // 音量（dBFS）。分かる場合は、無音でないのに文字が無い結果を品質チェックで見つける
 }
 
 export interface TranscriptionOptions {
   language?: string
   model?: string
+  prompt?: string // 固有名詞や表記をそろえるためのプロンプト
+  task?: TranscriptionTask // translate の場合は英語に翻訳する（language は元の音声の言語）
+}
+
+// 複数のセグメントを処理するときの設定
+export interface MultiSegmentOptions extends TranscriptionOptions {
+  glossary?: string[] // 用語集（各セグメントのプロンプトに含める）
+  chainContext?: boolean // 前のセグメントの末尾もプロンプトに含める（前の結果を待つため1つずつ処理する）
+  useCache?: boolean // false の場合はキャッシュを読まずに送信する（結果は保存する）
+  fallbackModels?: string[] // 品質チェックに通らなかったセグメントを、順に処理し直すモデル
+}
+
+// 1回の文字起こしリクエストに付ける情報
+export interface TranscriptionRequestOptions {
+  signal?: AbortSignal
+  audioSeconds?: number // セグメントの長さ（レート制限の音声秒数に使う）
 }
 
 export class GroqAPIClient {
   private readonly baseUrl: string
+  // 並列で送る全セグメントで共有し、サーバーから返るレート制限ヘッダーに合わせて送信間隔を調整する
+  private readonly rateLimiter = new RateLimiter()
+  private providerInfo: Promise<TranscriptionProviderInfo | undefined> | null = null
 
-  constructor(baseUrl: string = '/api') {
+  // 同じ音声・同じ条件の結果を再利用する（省略時はキャッシュしない）
+  constructor(baseUrl: string = '/api', private readonly cache?: TranscriptionCache) {
     this.baseUrl = baseUrl
   }
 
   async transcribeAudio(
     audioBlob: Blob,
     options: TranscriptionOptions = {},
-    retryCount: number = 0
+    retryCount: number = 0,
+    request: TranscriptionRequestOptions = {}
   ): Promise<TranscriptionResult> {
     const maxRetries = 3
     const baseDelay = 1000 // 1秒
+    const { signal } = request
 
-    try {
-      const formData = new FormData()
-      formData.append('file', audioBlob, 'audio.wav')
-      
-      if (options.language) {
-        formData.append('language', options.language)
-      }
-      
-      if (options.model) {
-        formData.append('model', options.model)
-      }
+    const formData = new FormData()
+    formData.append('file', audioBlob, getUploadFilename(audioBlob))
 
-      const response = await fetch(`${this.baseUrl}/transcribe`, {
-        method: 'POST',
-        body: formData,
-      })
-      console.log('API Response:', response)
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        const errorMessage = errorData.error || `HTTP ${response.status}: ${response.statusText}`
-        
-        // レート制限エラーの場合、指数バックオフでリトライ
-        if (response.status === 429 && retryCount < maxRetries) {
-          // エラーメッセージから待機時間を抽出
-          let waitTime = baseDelay * Math.pow(2, retryCount) + Math.random() * 1000
-          
-          // エラーメッセージに待機時間が含まれている場合、それを優先
-          const waitTimeMatch = errorMessage.match(/try again in ([\d.]+)s/)
-          if (waitTimeMatch) {
-            const extractedWaitTime = parseFloat(waitTimeMatch[1]) * 1000
-            waitTime = Math.max(waitTime, extractedWaitTime + 500) // 余裕を持って待機
+    if (options.language) {
+      formData.append('language', options.language)
+    }
+
+    if (options.model) {
+      formData.append('model', options.model)
+    }
+
+    if (options.prompt) {
+      formData.append('prompt', options.prompt)
+    }
+
+    if (options.task) {
+      formData.append('task', options.task)
+    }
+
+    // retryCount は呼び出し側で使った再試行の回数。合計の再試行が maxRetries を超えないようにループで数える
+    for (let attempt = retryCount; ; attempt++) {
+      let retryAfterMs: number | undefined
+      try {
+        await this.rateLimiter.acquire({ audioSeconds: request.audioSeconds }, signal)
+        let response: Response
+        try {
+          response = await fetch(`${this.baseUrl}/transcribe`, {
+            method: 'POST',
+            body: formData,
+            signal,
+          })
+        } catch (error) {
+          if (isAbortError(error)) {
+            throw error
           }
-          
-          console.log(`Rate limit hit, retrying in ${waitTime}ms (attempt ${retryCount + 1}/${maxRetries})`)
-          await new Promise(resolve => setTimeout(resolve, waitTime))
-          return this.transcribeAudio(audioBlob, options, retryCount + 1)
+          throw TranscriptionError.fromCode('NETWORK_ERROR', error instanceof Error ? error.message : String(error))
         }
-        
-        // APIキーエラーの場合、リトライしない
-        if (response.status === 401) {
-          throw new Error('APIキーが無効です。正しいAPIキーを設定してください。')
+        console.log('API Response:', response)
+        this.rateLimiter.update(response.headers)
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          const error = TranscriptionError.fromResponse(response.status, errorData)
+          retryAfterMs = error.retryAfterMs ?? parseRetryAfter(response.headers.get('retry-after'))
+          throw error
         }
-        
-        throw new Error(errorMessage)
-      }
 
-      return await response.json()
-    } catch (error) {
-      // ネットワークエラーなどの場合、リトライ
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      if (retryCount < maxRetries && !errorMessage.includes('APIキーが無効')) {
-        const delay = baseDelay * Math.pow(2, retryCount) + Math.random() * 1000
-        console.log(`Transcription failed, retrying in ${delay}ms (attempt ${retryCount + 1}/${maxRetries})`)
-        await new Promise(resolve => setTimeout(resolve, delay))
-        return this.transcribeAudio(audioBlob, options, retryCount + 1)
+        return await response.json()
+      } catch (error) {
+        // 中断やAPIキーの誤りなど、再試行しても変わらないエラーと、再試行の上限に達したエラーはそのまま返す
+        if (attempt >= maxRetries || !isRetryableError(error)) {
+          throw error
+        }
+
+        const backoff = baseDelay * Math.pow(2, attempt) + Math.random() * 1000
+        if (error instanceof TranscriptionError && error.code === 'RATE_LIMITED') {
+          // レート制限の場合、Retry-After（無ければ指数バックオフ）の間はすべてのセグメントの送信を止める
+          const waitTime = retryAfterMs ?? backoff
+          this.rateLimiter.pause(waitTime)
+          console.log(`Rate limit hit, retrying in ${waitTime}ms (attempt ${attempt + 1}/${maxRetries})`)
+        } else {
+          console.log(`Transcription failed, retrying in ${backoff}ms (attempt ${attempt + 1}/${maxRetries})`)
+          await delay(backoff, signal)
+        }
       }
-      
-      throw error
     }
   }
 
+  /**
+   * サーバーで使っているプロバイダーの情報。設定は変わらないため最初の1回だけ問い合わせる。
+   * 取得できない場合は undefined（次の呼び出しで再度問い合わせる）。
+   */
+  async getProviderInfo(): Promise<TranscriptionProviderInfo | undefined> {
+    this.providerInfo ??= fetch(`${this.baseUrl}/transcribe`)
+      .then(response => response.ok ? response.json() as Promise<TranscriptionProviderInfo> : undefined)
+      .catch(error => {
+        console.warn('プロバイダーの情報を取得できません:', error)
+        return undefined
+      })
+    const info = await this.providerInfo
+    if (!info) {
+      this.providerInfo = null
+    }
+    return info
+  }
+
+  /**
+   * セグメントを並列で文字起こしする。
+   * 非同期イテラブルを渡した場合は、セグメントが届いた順に空きがあり次第送信する。
+   * signal を中断すると、待機中のセグメントは送信せず、送信中のリクエストも中断して AbortError で失敗する。
+   * 失敗したセグメントも含め、セグメントごとの結果をインデックス順に返す。
+   * キャッシュに同じ音声・同じ条件の結果があるセグメントは送信せず、その結果を使う。
+   * fallbackModels を指定した場合、品質チェックに通らなかったセグメントは次のモデルで処理し直す。
+   */
   async transcribeMultipleSegments(
-    segments: { blob: Blob; index: number; startTime: number; endTime: number }[],
-    options: TranscriptionOptions = {},
-    onProgress?: (completed: number, total: number) => void,
-    concurrency: number = 5
-  ): Promise<Array<TranscriptionResult & { index: number; startTime: number; endTime: number }>> {
-    const results: Array<TranscriptionResult & { index: number; startTime: number; endTime: number }> = []
-    const errors: Array<{ index: number; error: string; retryCount: number }> = []
-    const failedSegments: Array<{ blob: Blob; index: number; startTime: number; endTime: number; retryCount: number }> = []
+    segments: TranscriptionSegmentInput[] | AsyncIterable<TranscriptionSegmentInput>,
+    options: MultiSegmentOptions = {},
+    onProgress?: (completed: number, total: number, cached: number) => void,
+    concurrency: number = 5,
+    signal?: AbortSignal
+  ): Promise<SegmentOutcome[]> {
+    const results: SegmentTranscriptionResult[] = []
+    const errors: Array<{ index: number; error: unknown; retryable: boolean; retryCount: number }> = []
+    const outcomes = new Map<number, SegmentOutcome>()
+    const failedSegments: Array<TranscriptionSegmentInput & { retryCount: number }> = []
+    let received = 0
+    let cachedCount = 0
+    const getTotal = () => Array.isArray(segments) ? segments.length : received
+
+    // 前のセグメントの結果を文脈に使う場合は、届いた順に1つずつ処理する
+    if (options.chainContext) {
+      concurrency = 1
+    }
+    const { glossary = [], chainContext, useCache = true, fallbackModels = [], ...requestOptions } = options
+    // モデルを選べないサーバー（whisper.cpp）では、予備のモデルで送り直しても同じモデルで処理される
+    // キャッシュのキーにはプロバイダーと実際に使うモデル名を含めるため、分からない場合はキャッシュを使わない
+    const providerInfo = this.cache || fallbackModels.length > 0 ? await this.getProviderInfo() : undefined
+    const modelSelectable = providerInfo?.supportsModelSelection !== false
+    const ladder = modelSelectable ? buildModelLadder(requestOptions.model, fallbackModels) : [undefined]
+    const promptFor = (segment: TranscriptionSegmentInput) => {
+      const previousText = chainContext ? outcomes.get(segment.index - 1)?.result?.text : undefined
+      return buildPrompt(glossary, previousText, requestOptions.prompt)
+    }
 
     console.log(`=== 並列文字起こし開始 ===`)
-    console.log(`セグメント数: ${segments.length}, 並列数: ${concurrency}`)
+    console.log(`セグメント数: ${Array.isArray(segments) ? segments.length : '（逐次受信）'}, 並列数: ${concurrency}`)
 
     // セマフォを使用した並列制御
     const semaphore = new Semaphore(concurrency)
+
+    // キャッシュに無ければ送信し、結果をキャッシュに保存する
+    const transcribeOnce = async (segment: TranscriptionSegmentInput, segmentOptions: TranscriptionOptions, retryCount: number) => {
+      const cacheKey = providerInfo
+        ? await this.cache?.keyFor(segment.blob, {
+          ...segmentOptions,
+          provider: providerInfo.id,
+          model: resolveModelName(providerInfo, segmentOptions.model, segmentOptions.task)
+        })
+        : undefined
+      const cachedResult = cacheKey && useCache ? await this.cache!.get(cacheKey) : undefined
+      throwIfAborted(signal)
+      if (cachedResult) {
+        return { result: cachedResult, cached: true }
+      }
+
+      const result = await this.transcribeAudio(segment.blob, segmentOptions, retryCount, {
+        signal,
+        audioSeconds: segment.endTime - segment.startTime
+      })
+      if (cacheKey) {
+        await this.cache!.set(cacheKey, result)
+      }
+      return { result, cached: false }
+    }
+
+    // 品質チェックに通るまで、より精度の高いモデルで処理し直す
+    const transcribeWithFallback = async (segment: TranscriptionSegmentInput, retryCount: number) => {
+      const segmentOptions = { ...requestOptions, prompt: promptFor(segment) }
+      const first = await transcribeOnce(segment, { ...segmentOptions, model: ladder[0] }, retryCount)
+      let best = { ...first, result: withModel(first.result, ladder[0]) }
+
+      for (let step = 1; step < ladder.length; step++) {
+        const issues = checkTranscriptionQuality(best.result, segment.level)
+        if (issues.length === 0) break
+        // サーバーの既定のモデルが予備のモデルと同じ場合は飛ばす
+        if (best.result.model === ladder[step]) continue
+
+        console.log(`セグメント ${segment.index} の品質チェック: ${issues.join(', ')} → ${ladder[step]} で再処理`)
+        try {
+          const attempt = await transcribeOnce(segment, { ...segmentOptions, model: ladder[step] }, 0)
+          best = { cached: best.cached && attempt.cached, result: withModel(attempt.result, ladder[step]) }
+        } catch (error) {
+          if (isAbortError(error)) throw error
+          // 予備のモデルで失敗した場合は、それまでの結果を使う
+          console.warn(`セグメント ${segment.index} を ${ladder[step]} で処理できませんでした:`, error)
+          break
+        }
+      }
+      return best
+    }
     
-    const processSegment = async (segment: { blob: Blob; index: number; startTime: number; endTime: number }, retryCount: number = 0) => {
+    const processSegment = async (segment: TranscriptionSegmentInput, retryCount: number = 0) => {
       return semaphore.acquire(async () => {
         try {
           console.log(`セグメント ${segment.index} の処理開始 (リトライ: ${retryCount})`)
-          const result = await this.transcribeAudio(segment.blob, options, retryCount)
+          const { result, cached } = await transcribeWithFallback(segment, retryCount)
+          if (cached) {
+            cachedCount++
+          }
           const resultWithMeta = {
             ...result,
             index: segment.index,
@@ -135,27 +337,44 @@ export class GroqAPIClient {
             endTime: segment.endTime
           }
           results.push(resultWithMeta)
+          outcomes.set(segment.index, {
+            index: segment.index,
+            startTime: segment.startTime,
+            endTime: segment.endTime,
+            result: resultWithMeta,
+            ...(cached ? { cached: true } : {})
+          })
           
-          console.log(`セグメント ${segment.index} 成功: ${result.text.length}文字`)
+          console.log(`セグメント ${segment.index} 成功: ${result.text.length}文字${result.model ? `（${result.model}）` : ''}${cached ? '（キャッシュ）' : ''}`)
           
           if (onProgress) {
-            onProgress(results.length + errors.length, segments.length)
+            onProgress(results.length + errors.length, getTotal(), cachedCount)
           }
           
           return resultWithMeta
         } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error)
-          const errorInfo = {
+          if (isAbortError(error)) {
+            throw error
+          }
+
+          const retryable = isRetryableError(error)
+          outcomes.set(segment.index, {
             index: segment.index,
-            error: errorMessage,
+            startTime: segment.startTime,
+            endTime: segment.endTime,
+            error: toTranscriptionError(error)
+          })
+          errors.push({
+            index: segment.index,
+            error,
+            retryable,
             retryCount
-          }
-          errors.push(errorInfo)
+          })
           
-          console.error(`セグメント ${segment.index} 失敗:`, errorMessage)
+          console.error(`セグメント ${segment.index} 失敗:`, error instanceof TranscriptionError ? `${error.code} ${error.detail}` : error)
           
           // リトライ可能なエラーの場合、失敗したセグメントリストに追加
-          if (retryCount < 2 && !errorMessage.includes('APIキーが無効')) {
+          if (retryCount < 2 && retryable) {
             failedSegments.push({
               ...segment,
               retryCount: retryCount + 1
@@ -163,17 +382,30 @@ export class GroqAPIClient {
           }
           
           if (onProgress) {
-            onProgress(results.length + errors.length, segments.length)
+            onProgress(results.length + errors.length, getTotal(), cachedCount)
           }
           
           throw error
         }
-      })
+      }, signal)
     }
 
-    // 最初の処理を実行
-    const promises = segments.map(segment => processSegment(segment))
-    await Promise.allSettled(promises)
+    // 最初の処理を実行（処理中のセグメントが並列数に達したら、空くまで次を受け取らない）
+    const inFlight = new Set<Promise<void>>()
+    for await (const segment of segments) {
+      throwIfAborted(signal)
+      received++
+      const task: Promise<void> = processSegment(segment)
+        .then(() => undefined, () => undefined)
+        .finally(() => inFlight.delete(task))
+      inFlight.add(task)
+
+      while (inFlight.size >= concurrency) {
+        await Promise.race(inFlight)
+      }
+    }
+    await Promise.allSettled(inFlight)
+    throwIfAborted(signal)
     
     // 失敗したセグメントをリトライ
     if (failedSegments.length > 0) {
@@ -183,100 +415,80 @@ export class GroqAPIClient {
         processSegment(segment, segment.retryCount)
       )
       await Promise.allSettled(retryPromises)
+      throwIfAborted(signal)
     }
     
     // 最終的なエラー統計
-    const finalErrors = errors.filter(e => e.retryCount >= 2 || e.error.includes('APIキーが無効'))
+    const finalErrors = errors.filter(e => e.retryCount >= 2 || !e.retryable)
     if (finalErrors.length > 0) {
       console.warn(`${finalErrors.length}個のセグメントが最終的に失敗:`, finalErrors)
     }
 
     console.log(`=== 並列文字起こし完了 ===`)
-    console.log(`成功: ${results.length}, 失敗: ${finalErrors.length}`)
+    console.log(`成功: ${results.length}（キャッシュ: ${cachedCount}）, 失敗: ${finalErrors.length}`)
 
     // 結果をインデックス順にソート
-    results.sort((a, b) => a.index - b.index)
-    
-    return results
+    return Array.from(outcomes.values()).sort((a, b) => a.index - b.index)
   }
 
-  mergeTranscriptionResults(
-    results: Array<TranscriptionResult & { index: number; startTime: number; endTime: number }>
-  ): TranscriptionResult {
-    if (results.length === 0) {
-      return {
-        text: '',
-        segments: [],
-        words: [],
-        language: 'ja',
-        duration: 0
-      }
-    }
-
-    const mergedText = results.map(result => result.text.trim()).join(' ')
-    const mergedSegments: TranscriptionSegment[] = []
-    const mergedWords: TranscriptionWord[] = []
-    let totalDuration = 0
-
-    results.forEach((result) => {
-      const timeOffset = result.startTime
-
-      // セグメントのマージ
-      result.segments.forEach(segment => {
-        mergedSegments.push({
-          ...segment,
-          id: mergedSegments.length,
-          start: segment.start + timeOffset,
-          end: segment.end + timeOffset
-        })
-      })
+  // オーバーラップ区間の重複を取り除きながら、各セグメントの結果を1つにまとめる
+  mergeTranscriptionResults(results: SegmentTranscriptionResult[], gaps: TranscriptionGap[] = []): TranscriptionResult {
+    return MergeUtils.mergeResults(results, gaps)
+  }
 
-      // 単語のマージ
-      result.words.forEach(word => {
-        mergedWords.push({
-          ...word,
-          start: word.start + timeOffset,
-          end: word.end + timeOffset
-        })
-      })
+  // 再処理したセグメントの結果を、統合済みの結果に差し込む
+  spliceTranscriptionResults(base: TranscriptionResult, patches: SegmentTranscriptionResult[]): TranscriptionResult {
+    return MergeUtils.spliceResults(base, patches)
+  }
 
-      totalDuration = Math.max(totalDuration, result.endTime)
-    })
+  // 1つのセグメントの区間を処理し直した結果（startTime からの相対時刻）で、そのセグメントを置き換える
+  replaceTranscriptionSegment(
+    base: TranscriptionResult,
+    segmentIndex: number,
+    replacement: TranscriptionResult,
+    startTime: number
+  ): TranscriptionResult {
+    return MergeUtils.replaceSegment(base, segmentIndex, replacement, startTime)
+  }
 
-    return {
-      text: mergedText,
-      segments: mergedSegments,
-      words: mergedWords,
-      language: results[0].language,
-      duration: totalDuration
-    }
+  // 成功したセグメントを統合し、失敗したセグメントは欠落区間として記録する
+  mergeOutcomes(outcomes: SegmentOutcome[]): TranscriptionResult {
+    return this.mergeTranscriptionResults(
+      outcomes.flatMap(outcome => outcome.result ? [outcome.result] : []),
+      getOutcomeGaps(outcomes)
+    )
   }
 }
 
+export function getOutcomeGaps(outcomes: SegmentOutcome[]): TranscriptionGap[] {
+  return outcomes.flatMap(outcome => outcome.error
+    ? [{ index: outcome.index, start: outcome.startTime, end: outcome.endTime, code: outcome.error.code }]
+    : [])
+}
+
 class Semaphore {
   private permits: number
   private tasks: Array<() => void> = []
-  private lastRequestTime: number = 0
-  private readonly minInterval: number = 2500 // 2.5秒間隔（レート制限対策）
 
   constructor(permits: number) {
     this.permits = permits
   }
 
-  async acquire<T>(task: () => Promise<T>): Promise<T> {
+  // signal が中断されたら、順番待ちのタスクは実行せずに取り除く
+  async acquire<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const queued = this.tasks.indexOf(wrappedTask)
+        if (queued !== -1) {
+          this.tasks.splice(queued, 1)
+          reject(createAbortError())
+        }
+      }
+
       const wrappedTask = async () => {
+        signal?.removeEventListener('abort', onAbort)
         try {
-          // レート制限を考慮した遅延
-          const now = Date.now()
-          const timeSinceLastRequest = now - this.lastRequestTime
-          if (timeSinceLastRequest < this.minInterval) {
-            const delay = this.minInterval - timeSinceLastRequest
-            console.log(`Rate limiting: waiting ${delay}ms before next request`)
-            await new Promise(resolve => setTimeout(resolve, delay))
-          }
-          this.lastRequestTime = Date.now()
-          
+          throwIfAborted(signal)
           const result = await task()
           this.release()
           resolve(result)
@@ -286,11 +498,14 @@ class Semaphore {
         }
       }
 
-      if (this.permits > 0) {
+      if (signal?.aborted) {
+        reject(createAbortError())
+      } else if (this.permits > 0) {
         this.permits--
         wrappedTask()
       } else {
         this.tasks.push(wrappedTask)
+        signal?.addEventListener('abort', onAbort, { once: true })
       }
     })
   }
@@ -0,0 +1,260 @@
+import { encodeFlac } from '@/utils/flacEncoder'
+
+// /api/transcribe が受け付けるファイルサイズの上限
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024 // 25MB（Vercelの推奨制限）
+
+// セグメント1つあたりのデフォルトの容量（上限に余裕を持たせる）
+export const DEFAULT_SEGMENT_BYTES = 20 * 1024 * 1024
+
+const WAV_HEADER_BYTES = 44
+
+export type EncodingProfileId = 'whisper' | 'compact' | 'original'
+
+export interface EncodingProfile {
+  id: EncodingProfileId
+  label: string
+  description: string
+  sampleRate: number | null // nullの場合は元のサンプルレートを維持
+  channels: number | null // nullの場合は元のチャンネル数を維持
+  bitDepth: 8 | 16
+}
+
+export const ENCODING_PROFILES: Record<EncodingProfileId, EncodingProfile> = {
+  whisper: {
+    id: 'whisper',
+    label: '16kHz モノラル 16bit（推奨）',
+    description: 'Whisperの内部形式に合わせて変換します',
+    sampleRate: 16000,
+    channels: 1,
+    bitDepth: 16
+  },
+  compact: {
+    id: 'compact',
+    label: '16kHz モノラル 8bit',
+    description: 'サイズを半分にしますが、精度が下がる場合があります',
+    sampleRate: 16000,
+    channels: 1,
+    bitDepth: 8
+  },
+  original: {
+    id: 'original',
+    label: '元の形式 16bit',
+    description: 'サンプルレートとチャンネル数を変換せずに送信します',
+    sampleRate: null,
+    channels: null,
+    bitDepth: 16
+  }
+}
+
+export const DEFAULT_ENCODING_PROFILE: EncodingProfileId = 'whisper'
+
+export type SegmentContainer = 'wav' | 'flac'
+
+export interface AudioContainer {
+  id: SegmentContainer
+  label: string
+  mimeType: string
+  extension: string
+}
+
+export const AUDIO_CONTAINERS: Record<SegmentContainer, AudioContainer> = {
+  wav: { id: 'wav', label: 'WAV（無圧縮）', mimeType: 'audio/wav', extension: 'wav' },
+  flac: { id: 'flac', label: 'FLAC（可逆圧縮）', mimeType: 'audio/flac', extension: 'flac' }
+}
+
+export const DEFAULT_SEGMENT_CONTAINER: SegmentContainer = 'flac'
+
+// アップロード時のファイル名として使える拡張子と、対応するMIMEタイプ
+const UPLOAD_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/flac': 'flac',
+  'audio/x-flac': 'flac',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm'
+}
+
+export interface PcmData {
+  channels: Float32Array[]
+  sampleRate: number
+}
+
+export function getEncodingProfile(id: EncodingProfileId = DEFAULT_ENCODING_PROFILE): EncodingProfile {
+  return ENCODING_PROFILES[id]
+}
+
+/**
+ * プロファイルに合わせてダウンミックスとリサンプリングを行う。
+ * 変換が不要な場合は元のデータをそのまま返す。
+ */
+export function preparePcm(pcm: PcmData, profile: EncodingProfile): PcmData {
+  let channels = pcm.channels
+  if (profile.channels === 1 && channels.length > 1) {
+    channels = [downmixToMono(channels)]
+  }
+
+  const targetRate = profile.sampleRate ?? pcm.sampleRate
+  if (targetRate !== pcm.sampleRate) {
+    channels = channels.map(channelData => resample(channelData, pcm.sampleRate, targetRate))
+  }
+
+  return { channels, sampleRate: targetRate }
+}
+
+export function downmixToMono(channels: Float32Array[]): Float32Array {
+  const length = channels[0].length
+  const mono = new Float32Array(length)
+  for (const channelData of channels) {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channelData[i]
+    }
+  }
+  for (let i = 0; i < length; i++) {
+    mono[i] /= channels.length
+  }
+  return mono
+}
+
+/**
+ * ダウンサンプリング時は区間平均で折り返しを抑え、アップサンプリング時は線形補間する。
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  const ratio = fromRate / toRate
+  const outputLength = Math.floor(samples.length / ratio)
+  const output = new Float32Array(outputLength)
+
+  if (ratio > 1) {
+    for (let i = 0; i < outputLength; i++) {
+      const from = Math.floor(i * ratio)
+      const to = Math.min(samples.length, Math.max(from + 1, Math.floor((i + 1) * ratio)))
+      let sum = 0
+      for (let j = from; j < to; j++) {
+        sum += samples[j]
+      }
+      output[i] = sum / (to - from)
+    }
+  } else {
+    for (let i = 0; i < outputLength; i++) {
+      const position = i * ratio
+      const index = Math.floor(position)
+      const fraction = position - index
+      const next = Math.min(index + 1, samples.length - 1)
+      output[i] = samples[index] * (1 - fraction) + samples[next] * fraction
+    }
+  }
+
+  return output
+}
+
+/**
+ * セグメントを指定のコンテナでエンコードする。
+ * FLACは最悪でもWAVとほぼ同じサイズになるため、容量の見積もりはWAV基準で行う。
+ */
+export function encodeSegment(
+  pcm: PcmData,
+  startSample: number,
+  endSample: number,
+  profile: EncodingProfile,
+  container: SegmentContainer = DEFAULT_SEGMENT_CONTAINER
+): Blob {
+  if (container === 'flac') {
+    return encodeFlac(pcm, startSample, endSample, profile.bitDepth)
+  }
+  return encodeWav(pcm, startSample, endSample, profile.bitDepth)
+}
+
+/**
+ * アップロードするファイル名を決める。
+ * Whisper APIは拡張子で形式を判定するため、名前に既知の拡張子がなければMIMEタイプから補う。
+ */
+export function getUploadFilename(file: Blob, name?: string): string {
+  const knownExtensions = new Set(Object.values(UPLOAD_EXTENSIONS))
+  const currentExtension = name?.split('.').pop()?.toLowerCase()
+  if (name && currentExtension && knownExtensions.has(currentExtension)) {
+    return name
+  }
+
+  const mimeType = file.type.split(';')[0]
+  const extension = UPLOAD_EXTENSIONS[mimeType] ?? 'wav'
+  const baseName = name ? name.replace(/\.[^/.]+$/, '') : 'audio'
+  return `${baseName}.${extension}`
+}
+
+// 容量の範囲内に収まる最大のサンプル数
+export function getMaxSamplesForBudget(pcm: PcmData, profile: EncodingProfile, maxBytes: number): number {
+  return Math.floor((maxBytes - WAV_HEADER_BYTES) / (pcm.channels.length * (profile.bitDepth / 8)))
+}
+
+export function validateSegmentBudget(maxBytes: number): void {
+  if (maxBytes > MAX_UPLOAD_BYTES) {
+    throw new Error(
+      `セグメントの容量（${(maxBytes / 1024 / 1024).toFixed(1)}MB）がアップロード上限（${MAX_UPLOAD_BYTES / 1024 / 1024}MB）を超えています`
+    )
+  }
+  if (maxBytes <= WAV_HEADER_BYTES) {
+    throw new Error('セグメントの容量が小さすぎます')
+  }
+}
+
+export function encodeWav(
+  pcm: PcmData,
+  startSample: number,
+  endSample: number,
+  bitDepth: 8 | 16
+): Blob {
+  const length = endSample - startSample
+  const numberOfChannels = pcm.channels.length
+  const bytesPerSample = bitDepth / 8
+  const blockAlign = numberOfChannels * bytesPerSample
+  const byteRate = pcm.sampleRate * blockAlign
+  const dataSize = length * blockAlign
+  const bufferSize = WAV_HEADER_BYTES + dataSize
+
+  const arrayBuffer = new ArrayBuffer(bufferSize)
+  const view = new DataView(arrayBuffer)
+
+  // WAVヘッダーの書き込み
+  const writeString = (offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+      view.setUint8(offset + i, string.charCodeAt(i))
+    }
+  }
+
+  writeString(0, 'RIFF')
+  view.setUint32(4, bufferSize - 8, true)
+  writeString(8, 'WAVE')
+  writeString(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, numberOfChannels, true)
+  view.setUint32(24, pcm.sampleRate, true)
+  view.setUint32(28, byteRate, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, bitDepth, true)
+  writeString(36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  let offset = WAV_HEADER_BYTES
+  for (let i = startSample; i < endSample; i++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const sample = Math.max(-1, Math.min(1, pcm.channels[channel][i]))
+
+      if (bitDepth === 16) {
+        view.setInt16(offset, sample * 0x7FFF, true)
+        offset += 2
+      } else {
+        // 8ビットWAVは符号なし（128が無音）
+        view.setUint8(offset, Math.round(sample * 127) + 128)
+        offset += 1
+      }
+    }
+  }
+
+  return new Blob([arrayBuffer], { type: 'audio/wav' })
+}
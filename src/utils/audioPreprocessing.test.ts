@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { PcmData } from '@/utils/audioEncoding'
+import { measureLoudness, measurePeak, preprocessPcm } from '@/utils/audioPreprocessing'
+
+function sine(frequency: number, amplitude: number, seconds: number, sampleRate: number): Float32Array {
+  return Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate))
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20)
+
+describe('measureLoudness', () => {
+  // BS.1770 では 997Hz・振幅1の正弦波（モノラル）が -3.01 LUFS になる
+  it.each([48000, 44100, 16000])('%iHz でも 997Hz の正弦波を規格どおりのラウドネスで測る', sampleRate => {
+    expect(measureLoudness([sine(997, 1, 3, sampleRate)], sampleRate)).toBeCloseTo(-3.01, 1)
+    expect(measureLoudness([sine(997, 0.5, 3, sampleRate)], sampleRate)).toBeCloseTo(-9.03, 1)
+  })
+
+  it('K特性の低域カットはサンプルレートによらず同じように効く', () => {
+    const at48k = measureLoudness([sine(60, 0.5, 3, 48000)], 48000)
+    const at16k = measureLoudness([sine(60, 0.5, 3, 16000)], 16000)
+
+    // 60Hz はおよそ 1dB 下がる
+    expect(at48k).toBeLessThan(-9.5)
+    expect(Math.abs(at48k - at16k)).toBeLessThan(0.1)
+  })
+
+  it('ステレオは各チャンネルの電力を足し合わせる', () => {
+    const channel = sine(997, 0.5, 3, 48000)
+
+    expect(measureLoudness([channel, channel], 48000)).toBeCloseTo(-9.03 + 3.01, 1)
+  })
+
+  it('無音は -Infinity', () => {
+    expect(measureLoudness([new Float32Array(48000 * 2)], 48000)).toBe(-Infinity)
+  })
+})
+
+describe('preprocessPcm', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('ピーク正規化では最大値を -1 dBFS にそろえる', () => {
+    const pcm: PcmData = { channels: [sine(440, 0.25, 1, 16000), sine(440, 0.1, 1, 16000)], sampleRate: 16000 }
+
+    const processed = preprocessPcm(pcm, { normalization: 'peak', highPass: false, noiseGate: false })
+
+    expect(measurePeak(processed.channels)).toBeCloseTo(dbToGain(-1), 5)
+    // チャンネル間の比は変えない
+    expect(measurePeak([processed.channels[1]]) / measurePeak([processed.channels[0]])).toBeCloseTo(0.4, 5)
+  })
+
+  it('ラウドネス正規化では -16 LUFS にそろえる', () => {
+    const pcm: PcmData = { channels: [sine(997, 0.05, 3, 16000)], sampleRate: 16000 }
+
+    const processed = preprocessPcm(pcm, { normalization: 'loudness', highPass: false, noiseGate: false })
+
+    expect(measureLoudness(processed.channels, 16000)).toBeCloseTo(-16, 1)
+  })
+
+  it('ラウドネス正規化でも -1 dBFS を超えて増幅しない', () => {
+    // 波高率の大きい音（ほぼ無音の中に短いクリック）
+    const channel = new Float32Array(16000 * 3).fill(0.001)
+    channel[100] = 0.5
+    const processed = preprocessPcm({ channels: [channel], sampleRate: 16000 }, { normalization: 'loudness', highPass: false, noiseGate: false })
+
+    expect(measurePeak(processed.channels)).toBeLessThanOrEqual(dbToGain(-1) + 1e-6)
+  })
+
+  it.each(['peak', 'loudness'] as const)('無音に近い音声は %s でも 30dB までしか増幅しない', normalization => {
+    const pcm: PcmData = { channels: [sine(440, 1e-4, 1, 16000)], sampleRate: 16000 }
+
+    const processed = preprocessPcm(pcm, { normalization, highPass: false, noiseGate: false })
+
+    expect(measurePeak(processed.channels) / measurePeak(pcm.channels)).toBeCloseTo(dbToGain(30), 3)
+  })
+
+  it('ハイパスフィルターは低域を削り、声の帯域は残す', () => {
+    const options = { normalization: 'none' as const, highPass: true, noiseGate: false }
+    const hum = preprocessPcm({ channels: [sine(20, 0.5, 1, 16000)], sampleRate: 16000 }, options)
+    const voice = preprocessPcm({ channels: [sine(1000, 0.5, 1, 16000)], sampleRate: 16000 }, options)
+
+    // 立ち上がりの過渡応答を除いて比べる
+    expect(measurePeak([hum.channels[0].subarray(8000)])).toBeLessThan(0.05)
+    expect(measurePeak([voice.channels[0].subarray(8000)])).toBeCloseTo(0.5, 2)
+  })
+
+  it('ノイズゲートは話していない区間だけを -20dB に下げる', () => {
+    const sampleRate = 16000
+    const channel = sine(300, 0.001, 2, sampleRate)
+    channel.set(sine(300, 0.5, 0.4, sampleRate), 0.8 * sampleRate)
+
+    const [gated] = preprocessPcm({ channels: [channel], sampleRate }, { normalization: 'none', highPass: false, noiseGate: true }).channels
+
+    expect(measurePeak([gated.subarray(0, 0.5 * sampleRate)])).toBeCloseTo(0.0001, 5)
+    expect(measurePeak([gated.subarray(0.85 * sampleRate, 1.15 * sampleRate)])).toBeCloseTo(0.5, 3)
+  })
+
+  it('元のチャンネルデータは変更しない', () => {
+    const channels = [sine(440, 0.3, 1, 16000), sine(60, 0.2, 1, 16000)]
+    const original = channels.map(channelData => channelData.slice())
+
+    const processed = preprocessPcm({ channels, sampleRate: 16000 }, { normalization: 'loudness', highPass: true, noiseGate: true })
+
+    expect(channels).toEqual(original)
+    expect(processed.channels[0]).not.toBe(channels[0])
+  })
+})
@@ -0,0 +1,270 @@
+import type { PcmData } from '@/utils/audioEncoding'
+
+export type NormalizationMode = 'none' | 'peak' | 'loudness'
+
+export interface PreprocessingOptions {
+  normalization: NormalizationMode // 音量の正規化（peak: ピーク基準, loudness: ラウドネス基準）
+  highPass: boolean // 低域のハムや空調ノイズを除去する
+  noiseGate: boolean // 話していない区間の背景ノイズを抑える
+}
+
+export const DEFAULT_PREPROCESSING: PreprocessingOptions = {
+  normalization: 'none',
+  highPass: false,
+  noiseGate: false
+}
+
+export const NORMALIZATION_LABELS: Record<NormalizationMode, string> = {
+  none: 'なし',
+  peak: 'ピーク正規化（-1 dBFS）',
+  loudness: 'ラウドネス正規化（-16 LUFS）'
+}
+
+const HIGH_PASS_FREQUENCY = 80 // Hz
+const PEAK_TARGET_DB = -1 // dBFS
+const LOUDNESS_TARGET_LUFS = -16 // 音声向けの目標ラウドネス
+const MAX_GAIN_DB = 30 // 無音に近い音声を増幅しすぎないための上限
+
+// ノイズゲートの設定
+const GATE_FRAME_DURATION = 0.02 // 秒
+const GATE_HOLD_DURATION = 0.2 // 閉じるまでの保持時間（秒）
+const GATE_LOOKAHEAD_DURATION = 0.05 // 開き始める前倒し時間（秒）
+const GATE_THRESHOLD_ABOVE_FLOOR_DB = 10 // ノイズフロアからの閾値
+const GATE_ATTENUATION = 0.1 // 閉じているときの音量（-20 dB、完全には消さない）
+
+interface BiquadCoefficients {
+  b0: number
+  b1: number
+  b2: number
+  a1: number
+  a2: number
+}
+
+export function isPreprocessingEnabled(options?: PreprocessingOptions): options is PreprocessingOptions {
+  return !!options && (options.normalization !== 'none' || options.highPass || options.noiseGate)
+}
+
+/**
+ * ハイパスフィルター → ノイズゲート → 正規化の順に適用する。
+ * 元のデータは変更せず、新しいチャンネルデータを返す。
+ */
+export function preprocessPcm(pcm: PcmData, options: PreprocessingOptions): PcmData {
+  let channels = pcm.channels.map(channelData => channelData.slice())
+
+  if (options.highPass) {
+    const coefficients = highPassCoefficients(HIGH_PASS_FREQUENCY, Math.SQRT1_2, pcm.sampleRate)
+    channels.forEach(channelData => applyBiquad(channelData, coefficients))
+  }
+
+  if (options.noiseGate) {
+    applyNoiseGate(channels, pcm.sampleRate)
+  }
+
+  if (options.normalization !== 'none') {
+    const peak = measurePeak(channels)
+    if (peak > 0) {
+      const ceilingGain = Math.pow(10, PEAK_TARGET_DB / 20) / peak
+      let gain = ceilingGain
+      if (options.normalization === 'loudness') {
+        const loudness = measureLoudness(channels, pcm.sampleRate)
+        // ラウドネスが測れないほど小さい場合はピーク基準にする
+        if (Number.isFinite(loudness)) {
+          gain = Math.min(ceilingGain, Math.pow(10, (LOUDNESS_TARGET_LUFS - loudness) / 20))
+        }
+      }
+      gain = Math.min(gain, Math.pow(10, MAX_GAIN_DB / 20))
+      console.log('正規化:', { mode: options.normalization, gainDb: (20 * Math.log10(gain)).toFixed(1) })
+      channels = channels.map(channelData => channelData.map(value => value * gain))
+    }
+  }
+
+  return { channels, sampleRate: pcm.sampleRate }
+}
+
+export function measurePeak(channels: Float32Array[]): number {
+  let peak = 0
+  for (const channelData of channels) {
+    for (let i = 0; i < channelData.length; i++) {
+      const value = Math.abs(channelData[i])
+      if (value > peak) peak = value
+    }
+  }
+  return peak
+}
+
+/**
+ * ITU-R BS.1770 の統合ラウドネス（LUFS）を求める。
+ * K特性フィルター後に400msブロック（75%重複）で平均し、絶対ゲート(-70 LUFS)と相対ゲート(-10 LU)を適用する。
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): number {
+  const [shelf, highPass] = kWeightingCoefficients(sampleRate)
+  const weighted = channels.map(channelData => {
+    const filtered = channelData.slice()
+    applyBiquad(filtered, shelf)
+    applyBiquad(filtered, highPass)
+    return filtered
+  })
+
+  const blockSamples = Math.round(0.4 * sampleRate)
+  const hopSamples = Math.round(0.1 * sampleRate)
+  const length = channels[0].length
+  const blockPowers: number[] = []
+
+  for (let start = 0; start + blockSamples <= length; start += hopSamples) {
+    let power = 0
+    for (const channelData of weighted) {
+      let sum = 0
+      for (let i = start; i < start + blockSamples; i++) {
+        sum += channelData[i] * channelData[i]
+      }
+      power += sum / blockSamples
+    }
+    blockPowers.push(power)
+  }
+
+  const toLoudness = (power: number) => -0.691 + 10 * Math.log10(power)
+  const gatedMean = (threshold: number) => {
+    const gated = blockPowers.filter(power => toLoudness(power) > threshold)
+    return gated.length > 0 ? gated.reduce((sum, power) => sum + power, 0) / gated.length : 0
+  }
+
+  const absoluteMean = gatedMean(-70)
+  if (absoluteMean === 0) return -Infinity
+  const relativeThreshold = toLoudness(absoluteMean) - 10
+  return toLoudness(gatedMean(Math.max(-70, relativeThreshold)))
+}
+
+// 区間の音量（dBFS）。短い発話も拾えるよう、全体の平均ではなく大きい方から5%のフレームのレベルを使う
+export function measureLevel(pcm: PcmData, startSample: number, endSample: number): number {
+  const frameSamples = Math.max(1, Math.round(GATE_FRAME_DURATION * pcm.sampleRate))
+  const levels: number[] = []
+  for (let from = startSample; from < endSample; from += frameSamples) {
+    const to = Math.min(endSample, from + frameSamples)
+    let sum = 0
+    for (const channelData of pcm.channels) {
+      for (let i = from; i < to; i++) {
+        sum += channelData[i] * channelData[i]
+      }
+    }
+    levels.push(20 * Math.log10(Math.sqrt(sum / ((to - from) * pcm.channels.length)) + 1e-10))
+  }
+  if (levels.length === 0) return -Infinity
+  levels.sort((a, b) => b - a)
+  return levels[Math.floor(levels.length * 0.05)]
+}
+
+/**
+ * フレームごとのRMSからノイズフロアを推定し、それより十分大きい区間だけを通す。
+ * ゲインはフレーム間で直線的に変化させ、プツッというノイズが出ないようにする。
+ */
+function applyNoiseGate(channels: Float32Array[], sampleRate: number) {
+  const length = channels[0].length
+  const frameSamples = Math.max(1, Math.round(GATE_FRAME_DURATION * sampleRate))
+  const frameCount = Math.ceil(length / frameSamples)
+  if (frameCount === 0) return
+
+  const levels = new Float32Array(frameCount)
+  for (let frame = 0; frame < frameCount; frame++) {
+    const from = frame * frameSamples
+    const to = Math.min(length, from + frameSamples)
+    let sum = 0
+    for (const channelData of channels) {
+      for (let i = from; i < to; i++) {
+        sum += channelData[i] * channelData[i]
+      }
+    }
+    const rms = Math.sqrt(sum / ((to - from) * channels.length))
+    levels[frame] = 20 * Math.log10(rms + 1e-10)
+  }
+
+  // 下位10%のレベルをノイズフロアとみなす
+  const sorted = Array.from(levels).sort((a, b) => a - b)
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)]
+  const threshold = noiseFloor + GATE_THRESHOLD_ABOVE_FLOOR_DB
+
+  // 話し終わりは保持時間だけ、話し始めは少し手前から開けておく
+  const holdFrames = Math.round(GATE_HOLD_DURATION / GATE_FRAME_DURATION)
+  const lookaheadFrames = Math.round(GATE_LOOKAHEAD_DURATION / GATE_FRAME_DURATION)
+  const gains = new Float32Array(frameCount).fill(GATE_ATTENUATION)
+  let lastOpenFrame = -Infinity
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (levels[frame] >= threshold) lastOpenFrame = frame
+    if (frame - lastOpenFrame <= holdFrames) gains[frame] = 1
+  }
+  let nextOpenFrame = Infinity
+  for (let frame = frameCount - 1; frame >= 0; frame--) {
+    if (levels[frame] >= threshold) nextOpenFrame = frame
+    if (nextOpenFrame - frame <= lookaheadFrames) gains[frame] = 1
+  }
+
+  for (const channelData of channels) {
+    for (let frame = 0; frame < frameCount; frame++) {
+      const from = frame * frameSamples
+      const to = Math.min(length, from + frameSamples)
+      const startGain = frame > 0 ? gains[frame - 1] : gains[frame]
+      const endGain = gains[frame]
+      for (let i = from; i < to; i++) {
+        channelData[i] *= startGain + (endGain - startGain) * ((i - from) / frameSamples)
+      }
+    }
+  }
+}
+
+function applyBiquad(samples: Float32Array, { b0, b1, b2, a1, a2 }: BiquadCoefficients) {
+  let z1 = 0
+  let z2 = 0
+  for (let i = 0; i < samples.length; i++) {
+    const input = samples[i]
+    const output = b0 * input + z1
+    z1 = b1 * input - a1 * output + z2
+    z2 = b2 * input - a2 * output
+    samples[i] = output
+  }
+}
+
+function highPassCoefficients(frequency: number, q: number, sampleRate: number): BiquadCoefficients {
+  const w0 = 2 * Math.PI * frequency / sampleRate
+  const cos = Math.cos(w0)
+  const alpha = Math.sin(w0) / (2 * q)
+  const a0 = 1 + alpha
+  return {
+    b0: (1 + cos) / 2 / a0,
+    b1: -(1 + cos) / a0,
+    b2: (1 + cos) / 2 / a0,
+    a1: -2 * cos / a0,
+    a2: (1 - alpha) / a0
+  }
+}
+
+/**
+ * K特性フィルター（高域シェルフ + 低域カット）の係数を任意のサンプルレートで求める。
+ * 48kHzのときに BS.1770 の係数と一致するパラメータを双一次変換で使う。
+ */
+function kWeightingCoefficients(sampleRate: number): [BiquadCoefficients, BiquadCoefficients] {
+  const shelfK = Math.tan(Math.PI * 1681.974450955533 / sampleRate)
+  const shelfQ = 0.7071752369554196
+  const vh = Math.pow(10, 3.999843853973347 / 20)
+  const vb = Math.pow(vh, 0.4996667741545416)
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK
+
+  const highPassK = Math.tan(Math.PI * 38.13547087602444 / sampleRate)
+  const highPassQ = 0.5003270373238773
+  const highPassA0 = 1 + highPassK / highPassQ + highPassK * highPassK
+
+  return [
+    {
+      b0: (vh + vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+      b1: 2 * (shelfK * shelfK - vh) / shelfA0,
+      b2: (vh - vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+      a1: 2 * (shelfK * shelfK - 1) / shelfA0,
+      a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0
+    },
+    {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: 2 * (highPassK * highPassK - 1) / highPassA0,
+      a2: (1 - highPassK / highPassQ + highPassK * highPassK) / highPassA0
+    }
+  ]
+}
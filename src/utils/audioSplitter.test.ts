@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { ENCODING_PROFILES, PcmData } from '@/utils/audioEncoding'
+import { findQuietestSample, planSegmentRanges, planSegments } from '@/utils/audioSplitter'
+
+// 解析しやすいよう、1秒=1000サンプルのモノラル音声で試す
+const SAMPLE_RATE = 1000
+const profile = ENCODING_PROFILES.whisper
+
+// 全体に一定の音があり、quiet に指定した区間（秒）だけ無音の音声
+function pcmOf(seconds: number, quiet: [number, number][] = []): PcmData {
+  const samples = new Float32Array(seconds * SAMPLE_RATE).fill(0.5)
+  for (const [start, end] of quiet) {
+    samples.fill(0, start * SAMPLE_RATE, end * SAMPLE_RATE)
+  }
+  return { channels: [samples], sampleRate: SAMPLE_RATE }
+}
+
+describe('findQuietestSample', () => {
+  it('範囲内で最も静かなフレームの中心を返す', () => {
+    const { channels } = pcmOf(1, [[0.6, 0.66]])
+
+    // 解析フレームは20サンプル。無音区間に収まるフレームのうち、目標位置に最も近いものを選ぶ
+    expect(findQuietestSample(channels, 0, 1000, 500, SAMPLE_RATE)).toBe(610)
+  })
+
+  it('同じ静かさなら目標位置に近い方を選ぶ', () => {
+    const channels = [new Float32Array(1000)]
+
+    expect(findQuietestSample(channels, 0, 1000, 500, SAMPLE_RATE)).toBe(500)
+  })
+
+  it('検索範囲にフレームが収まらない場合は目標位置を範囲内に収めて返す', () => {
+    const { channels } = pcmOf(1)
+
+    expect(findQuietestSample(channels, 100, 110, 500, SAMPLE_RATE)).toBe(110)
+  })
+})
+
+describe('planSegments', () => {
+  it('固定長では、オーバーラップの分だけ戻った位置から次のセグメントを始める', () => {
+    const boundaries = planSegments(pcmOf(25), profile, { segmentDuration: 10, overlap: 1 })
+
+    expect(boundaries).toEqual([
+      { startSample: 0, endSample: 10000 },
+      { startSample: 9000, endSample: 19000 },
+      { startSample: 18000, endSample: 25000 }
+    ])
+  })
+
+  it('無音位置で分割する場合は、目標位置の前後で最も静かな位置で区切る', () => {
+    const boundaries = planSegments(pcmOf(25, [[11.4, 11.6]]), profile, {
+      segmentDuration: 10,
+      overlap: 1,
+      strategy: 'silence',
+      silenceSearchWindow: 3
+    })
+
+    expect(boundaries[0].endSample).toBeGreaterThanOrEqual(11400)
+    expect(boundaries[0].endSample).toBeLessThanOrEqual(11600)
+    expect(boundaries[1].startSample).toBe(boundaries[0].endSample - 1000)
+  })
+
+  it('セグメントの容量に収まる長さで区切る', () => {
+    // 16bitモノラルで 5000 サンプル分（WAVヘッダー込み）
+    const boundaries = planSegments(pcmOf(12), profile, { segmentDuration: 10, overlap: 1, maxSegmentBytes: 44 + 5000 * 2 })
+
+    expect(boundaries.map(({ startSample, endSample }) => endSample - startSample)).toEqual([5000, 5000, 4000])
+  })
+
+  it('範囲を指定した場合は、その中だけを元の音声の位置のまま分割する', () => {
+    expect(planSegmentRanges(pcmOf(60), { segmentDuration: 10, overlap: 1, range: { start: 20, end: 35 } })).toEqual([
+      { start: 20, end: 30 },
+      { start: 29, end: 35 }
+    ])
+  })
+
+  it('1秒未満で終わる末尾はセグメントにしない', () => {
+    const boundaries = planSegments(pcmOf(10.5), profile, { segmentDuration: 10, overlap: 0 })
+
+    expect(boundaries).toEqual([{ startSample: 0, endSample: 10000 }])
+  })
+
+  it('最大長がオーバーラップに対して短すぎる場合はエラー', () => {
+    expect(() => planSegments(pcmOf(25), profile, { segmentDuration: 10, overlap: 5, maxSegmentDuration: 5 }))
+      .toThrow('セグメントの最大長がオーバーラップに対して短すぎます')
+  })
+})
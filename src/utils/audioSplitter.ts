@@ -0,0 +1,222 @@
+import {
+  DEFAULT_SEGMENT_BYTES,
+  EncodingProfile,
+  PcmData,
+  encodeSegment,
+  getEncodingProfile,
+  getMaxSamplesForBudget,
+  preparePcm,
+  validateSegmentBudget
+} from '@/utils/audioEncoding'
+import { isPreprocessingEnabled, measureLevel, preprocessPcm } from '@/utils/audioPreprocessing'
+import type { AudioRange, AudioSegment, AudioSplitOptions } from '@/utils/audioUtils'
+
+// 無音検出の解析フレーム長（秒）
+const SILENCE_FRAME_DURATION = 0.02
+
+export interface SegmentBoundary {
+  startSample: number
+  endSample: number
+}
+
+/**
+ * メインスレッドからワーカーへ送るメッセージ。
+ * デコードした音声はファイルごとに load で1回だけ送り、境界の計算（plan）と分割（start / next）で使い回す。
+ * 分割は next を受け取るたびに次の結果を1つ返し、plan は一緒に送った port に結果を返す。
+ */
+export type SplitWorkerCommand =
+  | { type: 'load'; channels: Float32Array[]; sampleRate: number }
+  | { type: 'plan'; options: AudioSplitOptions; port: MessagePort }
+  | { type: 'start'; options: AudioSplitOptions }
+  | { type: 'next' }
+
+// ワーカーからメインスレッドへ送るメッセージ
+export type SplitWorkerMessage =
+  | { type: 'plan'; total: number }
+  | { type: 'segment'; segment: AudioSegment }
+  | { type: 'done' }
+  | { type: 'error'; message: string }
+
+// plan に対してワーカーが port に返すメッセージ
+export type PlanWorkerMessage =
+  | { type: 'ranges'; ranges: AudioRange[] }
+  | { type: 'error'; message: string }
+
+/**
+ * デコード済みの音声をプロファイルに合わせて変換し、分割位置を決めてからセグメントを1つずつエンコードする。
+ * ワーカー内でもメインスレッドでも同じ処理を使う。
+ */
+export function splitPcm(source: PcmData, options: AudioSplitOptions): Generator<SplitWorkerMessage> {
+  return splitPreparedPcm(() => prepareSplitPcm(source, options), options)
+}
+
+/**
+ * 変換済みのデータを分割する。prepare は最初の結果を取り出すときに呼ぶ（変換の失敗も error として返すため）。
+ */
+export function* splitPreparedPcm(
+  prepare: () => PcmData,
+  options: AudioSplitOptions
+): Generator<SplitWorkerMessage> {
+  const profile = getEncodingProfile(options.encodingProfile)
+  const pcm = prepare()
+  const boundaries = planSegments(pcm, profile, options)
+  yield { type: 'plan', total: boundaries.length }
+
+  for (let index = 0; index < boundaries.length; index++) {
+    const { startSample, endSample } = boundaries[index]
+    yield {
+      type: 'segment',
+      segment: {
+        blob: encodeSegment(pcm, startSample, endSample, profile, options.container),
+        startTime: startSample / pcm.sampleRate,
+        endTime: endSample / pcm.sampleRate,
+        duration: (endSample - startSample) / pcm.sampleRate,
+        index,
+        level: measureLevel(pcm, startSample, endSample)
+      }
+    }
+  }
+
+  yield { type: 'done' }
+}
+
+/**
+ * 送信形式への変換と、有効な場合は前処理を行う。
+ * 前処理は変換後（通常は16kHzモノラル）のデータに対して行うため、計算量が少なくて済む。
+ */
+export function prepareSplitPcm(source: PcmData, options: AudioSplitOptions): PcmData {
+  const pcm = preparePcm(source, getEncodingProfile(options.encodingProfile))
+  if (!isPreprocessingEnabled(options.preprocessing)) {
+    return pcm
+  }
+  console.log('前処理:', options.preprocessing)
+  return preprocessPcm(pcm, options.preprocessing)
+}
+
+// 変換済みのデータを使い回せるか判断するキー（送信形式と前処理が同じなら同じデータになる）
+export function preparedPcmKey(options: AudioSplitOptions): string {
+  return JSON.stringify([options.encodingProfile, options.preprocessing])
+}
+
+/**
+ * 変換済みのデータから、予定されるセグメントの区間（秒）を求める。
+ */
+export function planSegmentRanges(pcm: PcmData, options: AudioSplitOptions): AudioRange[] {
+  const profile = getEncodingProfile(options.encodingProfile)
+  return planSegments(pcm, profile, options).map(({ startSample, endSample }) => ({
+    start: startSample / pcm.sampleRate,
+    end: endSample / pcm.sampleRate
+  }))
+}
+
+export function planSegments(
+  pcm: PcmData,
+  profile: EncodingProfile,
+  options: AudioSplitOptions
+): SegmentBoundary[] {
+  const { segmentDuration, overlap, strategy = 'fixed', silenceSearchWindow = 3 } = options
+  const maxSegmentBytes = options.maxSegmentBytes ?? DEFAULT_SEGMENT_BYTES
+  validateSegmentBudget(maxSegmentBytes)
+
+  const sampleRate = pcm.sampleRate
+  const { startSample: rangeStart, endSample: length } = getRangeSamples(pcm, options.range)
+  const segmentSamples = Math.floor(segmentDuration * sampleRate)
+  const overlapSamples = Math.floor(overlap * sampleRate)
+  const windowSamples = Math.floor(silenceSearchWindow * sampleRate)
+
+  // 最大長はオプションとセグメント容量の小さい方
+  const maxDuration = options.maxSegmentDuration ?? segmentDuration + (strategy === 'silence' ? silenceSearchWindow : 0)
+  const maxSamples = Math.min(
+    Math.floor(maxDuration * sampleRate),
+    getMaxSamplesForBudget(pcm, profile, maxSegmentBytes)
+  )
+  if (maxSamples <= overlapSamples + sampleRate) {
+    throw new Error('セグメントの最大長がオーバーラップに対して短すぎます')
+  }
+
+  const boundaries: SegmentBoundary[] = []
+  let currentPosition = rangeStart
+
+  while (currentPosition < length) {
+    const startSample = currentPosition
+    let endSample = Math.min(startSample + Math.min(segmentSamples, maxSamples), length)
+
+    if (strategy === 'silence' && endSample < length) {
+      // 目標位置の前後で最も静かな位置を探す（次の開始位置が必ず前進する範囲に限定）
+      const searchFrom = Math.max(startSample + overlapSamples + sampleRate, endSample - windowSamples)
+      const searchTo = Math.min(startSample + maxSamples, endSample + windowSamples, length)
+      endSample = findQuietestSample(pcm.channels, searchFrom, searchTo, endSample, sampleRate)
+    }
+
+    // 短すぎるセグメントはスキップ
+    if ((endSample - startSample) / sampleRate < 1) {
+      break
+    }
+
+    boundaries.push({ startSample, endSample })
+
+    if (endSample >= length) {
+      break
+    }
+
+    currentPosition = endSample - overlapSamples
+  }
+
+  return boundaries
+}
+
+/**
+ * 文字起こしする範囲をサンプル位置に変換する。範囲の指定がなければ全体を返す。
+ */
+export function getRangeSamples(pcm: PcmData, range?: AudioRange): SegmentBoundary {
+  const length = pcm.channels[0].length
+  if (!range) {
+    return { startSample: 0, endSample: length }
+  }
+
+  const startSample = Math.min(Math.max(0, Math.floor(range.start * pcm.sampleRate)), length)
+  const endSample = Math.min(Math.max(startSample, Math.floor(range.end * pcm.sampleRate)), length)
+  if (endSample - startSample < pcm.sampleRate) {
+    throw new Error('選択範囲が短すぎます。1秒以上の範囲を選択してください')
+  }
+  return { startSample, endSample }
+}
+
+/**
+ * 指定範囲内で最もエネルギーの小さい解析フレームの中心位置を返す。
+ * 同じエネルギーの場合は目標位置に近い方を優先する。
+ */
+export function findQuietestSample(
+  channels: Float32Array[],
+  searchFrom: number,
+  searchTo: number,
+  target: number,
+  sampleRate: number
+): number {
+  const frameSamples = Math.max(1, Math.round(SILENCE_FRAME_DURATION * sampleRate))
+  const hopSamples = Math.max(1, Math.floor(frameSamples / 2))
+
+  let bestPosition = Math.min(Math.max(target, searchFrom), searchTo)
+  let bestEnergy = Infinity
+  let bestDistance = Infinity
+
+  for (let frameStart = searchFrom; frameStart + frameSamples <= searchTo; frameStart += hopSamples) {
+    let energy = 0
+    for (const channelData of channels) {
+      for (let i = frameStart; i < frameStart + frameSamples; i++) {
+        energy += channelData[i] * channelData[i]
+      }
+    }
+    energy /= frameSamples * channels.length
+
+    const center = frameStart + Math.floor(frameSamples / 2)
+    const distance = Math.abs(center - target)
+    if (energy < bestEnergy || (energy === bestEnergy && distance < bestDistance)) {
+      bestEnergy = energy
+      bestDistance = distance
+      bestPosition = center
+    }
+  }
+
+  return bestPosition
+}
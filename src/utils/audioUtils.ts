@@ -1,22 +1,89 @@
+import {
+  DEFAULT_SEGMENT_BYTES,
+  EncodingProfileId,
+  PcmData,
+  SegmentContainer,
+  encodeSegment,
+  getEncodingProfile
+} from '@/utils/audioEncoding'
+import { PreprocessingOptions, measureLevel } from '@/utils/audioPreprocessing'
+import {
+  PlanWorkerMessage,
+  SplitWorkerCommand,
+  SplitWorkerMessage,
+  planSegmentRanges,
+  prepareSplitPcm,
+  preparedPcmKey,
+  splitPcm
+} from '@/utils/audioSplitter'
+import { findMediaFormat, getFormatLabels, isVideoFile } from '@/utils/mediaFormats'
+import { createAbortError, isAbortError, throwIfAborted } from '@/utils/abortUtils'
+import type { TranscriptionMetadata } from '@/utils/apiUtils'
+
 export interface AudioSegment {
   blob: Blob
   startTime: number
   endTime: number
   duration: number
   index: number
+  level?: number // 音量（dBFS）。無音かどうかの判断に使う
+}
+
+export type SplitStrategy = 'fixed' | 'silence'
+
+// 元の音声の中の区間（秒）
+export interface AudioRange {
+  start: number
+  end: number
 }
 
 export interface AudioSplitOptions {
   segmentDuration: number // セグメント長（秒）
   overlap: number // オーバーラップ（秒）
+  strategy?: SplitStrategy // 分割方式（fixed: 固定長, silence: 無音位置で分割）
+  silenceSearchWindow?: number // 無音を探す範囲（目標位置の前後、秒）
+  maxSegmentDuration?: number // セグメントの最大長（秒）
+  encodingProfile?: EncodingProfileId // 送信する音声の形式
+  container?: SegmentContainer // セグメントのファイル形式（wav / flac）
+  maxSegmentBytes?: number // セグメント1つあたりの容量（バイト）
+  range?: AudioRange // 文字起こしする範囲（省略時は全体、タイムスタンプは元の音声の位置のまま）
+  preprocessing?: PreprocessingOptions // 分割前に行う音声の前処理
+}
+
+/**
+ * 結果に記録した処理条件で、元の音声から区間を切り出すためのオプション（記録が無い項目は既定値）。
+ * 失敗したセグメントの再試行とセグメントの再文字起こしで、最初の文字起こしと同じ音声を送るために使う。
+ */
+export function getExtractOptions(
+  metadata?: TranscriptionMetadata
+): Pick<AudioSplitOptions, 'encodingProfile' | 'container' | 'preprocessing'> {
+  return {
+    encodingProfile: metadata?.encodingProfile,
+    container: metadata?.container,
+    preprocessing: metadata?.preprocessing
+  }
 }
 
 interface WindowWithWebkitAudioContext extends Window {
   webkitAudioContext?: typeof AudioContext
 }
 
+// デコードに失敗したときのエラー（メッセージはそのままユーザーに表示する）
+export class MediaDecodeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MediaDecodeError'
+  }
+}
+
 export class AudioProcessor {
   private audioContext: AudioContext | null = null
+  // 分割と境界の計算に使うワーカー。音声はファイルごとに1回だけ転送し、同じワーカーで使い回す
+  // pending はワーカーを停止したときに、結果を待っている境界の計算を終わらせるためのもの
+  private worker: { worker: Worker; buffer: AudioBuffer; pending: Set<() => void> } | null = null
+  // 同じファイルを何度もデコードしないよう、最後にデコードした結果を保持する
+  private decoded: { file: File; buffer: AudioBuffer } | null = null
+  private prepared: { buffer: AudioBuffer; key: string; pcm: PcmData } | null = null
 
   constructor() {
     // Web Audio APIの初期化は実際に使用する時に行う
@@ -48,8 +115,40 @@ export class AudioProcessor {
 
   async splitAudioFile(
     file: File,
-    options: AudioSplitOptions = { segmentDuration: 60, overlap: 1 }
+    options: AudioSplitOptions = { segmentDuration: 60, overlap: 1 },
+    onProgress?: (completed: number, total: number) => void,
+    signal?: AbortSignal
   ): Promise<AudioSegment[]> {
+    const segments: AudioSegment[] = []
+    for await (const segment of this.splitAudioFileStream(file, options, onProgress, signal)) {
+      segments.push(segment)
+    }
+
+    console.log('分割完了:', {
+      segmentsCount: segments.length,
+      segments: segments.map(s => ({
+        index: s.index,
+        duration: s.duration,
+        blobSize: s.blob.size,
+        startTime: s.startTime,
+        endTime: s.endTime
+      }))
+    })
+
+    return segments
+  }
+
+  /**
+   * 音声ファイルを分割し、エンコードが終わったセグメントから順に返す。
+   * 次のセグメントは呼び出し側が取り出すまでエンコードしないため、全セグメントを同時に保持しない。
+   * signal が中断されるとワーカーを停止し、AbortError で失敗する。
+   */
+  async *splitAudioFileStream(
+    file: File,
+    options: AudioSplitOptions = { segmentDuration: 60, overlap: 1 },
+    onProgress?: (completed: number, total: number) => void,
+    signal?: AbortSignal
+  ): AsyncGenerator<AudioSegment> {
     try {
       console.log('=== 音声分割開始 ===')
       console.log('ファイル情報:', {
@@ -71,58 +170,43 @@ export class AudioProcessor {
 
       console.log('Web Audio API対応確認完了')
 
-      const audioContext = await this.initAudioContext()
-      console.log('AudioContext初期化完了:', audioContext.state)
+      const audioBuffer = await this.decodeFile(file)
+      throwIfAborted(signal)
 
-      const arrayBuffer = await file.arrayBuffer()
-      console.log('ファイル読み込み完了:', arrayBuffer.byteLength, 'bytes')
+      const maxSegmentBytes = options.maxSegmentBytes ?? DEFAULT_SEGMENT_BYTES
+      let total = 0
+      let completed = 0
 
-      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
-      console.log('音声デコード完了:', {
-        duration: audioBuffer.duration,
-        sampleRate: audioBuffer.sampleRate,
-        numberOfChannels: audioBuffer.numberOfChannels,
-        length: audioBuffer.length
-      })
-      
-      const segments = this.splitAudioBuffer(audioBuffer, options)
-      
-      console.log('分割完了:', {
-        segmentsCount: segments.length,
-        segments: segments.map(s => ({
-          index: s.index,
-          duration: s.duration,
-          blobSize: s.blob.size,
-          startTime: s.startTime,
-          endTime: s.endTime
-        }))
-      })
+      for await (const message of this.runSplit(audioBuffer, options, signal)) {
+        if (message.type === 'plan') {
+          total = message.total
+          onProgress?.(0, total)
+        } else if (message.type === 'segment') {
+          const segment = message.segment
+          completed++
+          console.log(
+            `セグメント${segment.index}: サイズ=${segment.blob.size} bytes, 開始=${segment.startTime}s, 終了=${segment.endTime}s, 長さ=${segment.duration}s`
+          )
 
-      // 各セグメントごとのサイズ・時間を個別に出力
-      segments.forEach(s => {
-        console.log(
-          `セグメント${s.index}: サイズ=${s.blob.size} bytes, 開始=${s.startTime}s, 終了=${s.endTime}s, 長さ=${s.duration}s`
-        )
-      })
+          // ファイルサイズチェック
+          if (segment.blob.size > maxSegmentBytes) {
+            console.warn(`セグメント${segment.index}が大きすぎます:`, { size: segment.blob.size })
+          }
 
-      // ファイルサイズチェック
-      const maxSize = 20 * 1024 * 1024 // 20MB（Vercel制限の余裕を持って）
-      const oversizedSegments = segments.filter(s => s.blob.size > maxSize)
-      if (oversizedSegments.length > 0) {
-        console.warn(`${oversizedSegments.length}個のセグメントが大きすぎます:`, 
-          oversizedSegments.map(s => ({ index: s.index, size: s.blob.size })))
+          onProgress?.(completed, total)
+          yield segment
+        }
       }
-
-      return segments
     } catch (error) {
       console.error('=== 音声分割エラー ===', error)
       
       // エラーの種類に応じたメッセージ
+      if (error instanceof MediaDecodeError || isAbortError(error)) {
+        throw error
+      }
       if (error instanceof Error) {
         if (error.message.includes('Web Audio API')) {
           throw new Error('音声処理エラー: ' + error.message)
-        } else if (error.message.includes('decodeAudioData')) {
-          throw new Error('音声ファイルの形式がサポートされていません。MP3、WAV、M4A、OGG、FLAC形式をご利用ください。')
         } else {
           throw new Error('音声ファイルの分割に失敗しました: ' + error.message)
         }
@@ -132,140 +216,253 @@ export class AudioProcessor {
     }
   }
 
-  private splitAudioBuffer(
-    audioBuffer: AudioBuffer,
+  /**
+   * ファイルをデコードする。直前と同じファイルならデコード済みの結果を返す。
+   */
+  async decodeFile(file: File): Promise<AudioBuffer> {
+    if (this.decoded?.file === file) {
+      return this.decoded.buffer
+    }
+
+    const audioContext = await this.initAudioContext()
+    console.log('AudioContext初期化完了:', audioContext.state)
+
+    const audioBuffer = await this.decodeMediaFile(file, audioContext)
+    console.log('音声デコード完了:', {
+      duration: audioBuffer.duration,
+      sampleRate: audioBuffer.sampleRate,
+      numberOfChannels: audioBuffer.numberOfChannels,
+      length: audioBuffer.length
+    })
+
+    this.decoded = { file, buffer: audioBuffer }
+    this.prepared = null
+    return audioBuffer
+  }
+
+  /**
+   * 分割を実行せずに、現在のオプションで予定されるセグメントの区間（秒）を返す。
+   * 波形表示の境界線に使う。計算はWeb Workerで行い、ワーカーが使えない環境ではメインスレッドで行う。
+   * signal が中断されると AbortError で失敗する（ワーカーの計算は止めずに結果を捨てる）。
+   * 分割の中断などでワーカーを停止した場合も AbortError で失敗する。
+   */
+  async planSegmentTimes(file: File, options: AudioSplitOptions, signal?: AbortSignal): Promise<AudioRange[]> {
+    const audioBuffer = await this.decodeFile(file)
+    throwIfAborted(signal)
+
+    if (typeof Worker === 'undefined') {
+      return planSegmentRanges(await this.getPreparedPcm(file, options), options)
+    }
+
+    const { worker, pending } = this.getWorker(audioBuffer)
+    // 分割の結果と混ざらないよう、結果は専用の port で受け取る
+    const channel = new MessageChannel()
+
+    return new Promise<AudioRange[]>((resolve, reject) => {
+      const cleanup = () => {
+        pending.delete(onAbort)
+        signal?.removeEventListener('abort', onAbort)
+        channel.port1.close()
+      }
+      const onAbort = () => {
+        cleanup()
+        reject(createAbortError())
+      }
+      channel.port1.onmessage = (event: MessageEvent<PlanWorkerMessage>) => {
+        cleanup()
+        if (event.data.type === 'error') {
+          reject(new Error(event.data.message))
+        } else {
+          resolve(event.data.ranges)
+        }
+      }
+
+      pending.add(onAbort)
+      signal?.addEventListener('abort', onAbort, { once: true })
+      const command: SplitWorkerCommand = { type: 'plan', options, port: channel.port2 }
+      worker.postMessage(command, [channel.port2])
+    })
+  }
+
+  /**
+   * 指定した区間だけを切り出してエンコードする（失敗したセグメントの再送信などに使う）。
+   * 区間は分割時と同じ送信形式・前処理で変換したデータから切り出すため、元のセグメントと同じ音声になる。
+   */
+  async extractSegments(
+    file: File,
+    ranges: (AudioRange & { index: number })[],
     options: AudioSplitOptions
-  ): AudioSegment[] {
-    const { segmentDuration, overlap } = options
-    const sampleRate = audioBuffer.sampleRate
-    const segmentSamples = Math.floor(segmentDuration * sampleRate)
-    const overlapSamples = Math.floor(overlap * sampleRate)
-    const stepSamples = segmentSamples - overlapSamples
-    
-    const segments: AudioSegment[] = []
-    let currentPosition = 0
-    let segmentIndex = 0
+  ): Promise<AudioSegment[]> {
+    const pcm = await this.getPreparedPcm(file, options)
+    const profile = getEncodingProfile(options.encodingProfile)
+    const totalSamples = pcm.channels[0]?.length ?? 0
 
-    while (currentPosition < audioBuffer.length) {
-      const startSample = currentPosition
-      const endSample = Math.min(currentPosition + segmentSamples, audioBuffer.length)
-      const actualDuration = (endSample - startSample) / sampleRate
-      
-      // 短すぎるセグメントはスキップ
-      if (actualDuration < 1) {
-        break
+    return ranges.map(range => {
+      const startSample = Math.max(0, Math.round(range.start * pcm.sampleRate))
+      const endSample = Math.min(totalSamples, Math.round(range.end * pcm.sampleRate))
+      return {
+        blob: encodeSegment(pcm, startSample, endSample, profile, options.container),
+        startTime: startSample / pcm.sampleRate,
+        endTime: endSample / pcm.sampleRate,
+        duration: (endSample - startSample) / pcm.sampleRate,
+        index: range.index,
+        level: measureLevel(pcm, startSample, endSample)
       }
+    })
+  }
 
-      const segmentBuffer = this.extractAudioSegment(
-        audioBuffer, 
-        startSample, 
-        endSample
-      )
-      
-      const blob = this.audioBufferToWav(segmentBuffer)
-      
-      segments.push({
-        blob,
-        startTime: startSample / sampleRate,
-        endTime: endSample / sampleRate,
-        duration: actualDuration,
-        index: segmentIndex
-      })
+  // 音声はファイルが変わったときだけワーカーへ送り、以降は設定だけを送る
+  private getWorker(audioBuffer: AudioBuffer): NonNullable<AudioProcessor['worker']> {
+    if (this.worker?.buffer === audioBuffer) {
+      return this.worker
+    }
 
-      currentPosition += stepSamples
-      segmentIndex++
+    this.terminateWorker()
+    const worker = new Worker(new URL('../workers/audioSplitter.worker.ts', import.meta.url))
+    // ワーカーへ転送するため、チャンネルデータをコピーする（コピーはワーカーごとではなくファイルごとに1つ）
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) => audioBuffer.getChannelData(channel).slice())
+    const load: SplitWorkerCommand = { type: 'load', channels, sampleRate: audioBuffer.sampleRate }
+    worker.postMessage(load, channels.map(channelData => channelData.buffer))
+    this.worker = { worker, buffer: audioBuffer, pending: new Set() }
+    return this.worker
+  }
+
+  private terminateWorker() {
+    if (!this.worker) return
+    this.worker.worker.terminate()
+    for (const abort of [...this.worker.pending]) {
+      abort()
     }
+    this.worker = null
+  }
 
-    return segments
+  // 送信形式と前処理が変わらなければ変換済みのデータを使い回す
+  private async getPreparedPcm(file: File, options: AudioSplitOptions): Promise<PcmData> {
+    const audioBuffer = await this.decodeFile(file)
+    const key = preparedPcmKey(options)
+    if (this.prepared?.buffer !== audioBuffer || this.prepared.key !== key) {
+      const source: PcmData = {
+        channels: Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) => audioBuffer.getChannelData(channel)),
+        sampleRate: audioBuffer.sampleRate
+      }
+      this.prepared = { buffer: audioBuffer, key, pcm: prepareSplitPcm(source, options) }
+    }
+    return this.prepared.pcm
   }
 
-  private extractAudioSegment(
-    audioBuffer: AudioBuffer,
-    startSample: number,
-    endSample: number
-  ): AudioBuffer {
-    const audioContext = this.audioContext!
-    const segmentLength = endSample - startSample
-    const segmentBuffer = audioContext.createBuffer(
-      audioBuffer.numberOfChannels,
-      segmentLength,
-      audioBuffer.sampleRate
-    )
-
-    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
-      const channelData = audioBuffer.getChannelData(channel)
-      const segmentChannelData = segmentBuffer.getChannelData(channel)
-      
-      for (let i = 0; i < segmentLength; i++) {
-        segmentChannelData[i] = channelData[startSample + i]
+  /**
+   * 音声ファイル、または動画ファイルの音声トラックをデコードする。
+   * 動画の場合もコンテナの分離はブラウザのデコーダーに任せ、失敗した原因をできるだけ具体的に伝える。
+   */
+  private async decodeMediaFile(file: File, audioContext: AudioContext): Promise<AudioBuffer> {
+    const isVideo = isVideoFile(file)
+    const arrayBuffer = await file.arrayBuffer()
+    console.log('ファイル読み込み完了:', arrayBuffer.byteLength, 'bytes', isVideo ? '（動画）' : '')
+
+    try {
+      return await audioContext.decodeAudioData(arrayBuffer)
+    } catch (error) {
+      console.error('デコードエラー:', error)
+      if (!isVideo) {
+        throw new MediaDecodeError(`音声ファイルの形式がサポートされていません。${getFormatLabels('audio')}形式をご利用ください。`)
+      }
+
+      const label = findMediaFormat(file)?.label ?? '動画'
+      if (await this.canPlayVideo(file)) {
+        throw new MediaDecodeError(
+          `${label}ファイルの音声トラックを取り出せませんでした。音声が含まれていないか、このブラウザが音声コーデックに対応していません。`
+        )
       }
+      throw new MediaDecodeError(
+        `このブラウザは${label}ファイルのコーデックに対応していません。別のブラウザで開くか、音声ファイル（${getFormatLabels('audio')}）に変換してください。`
+      )
     }
+  }
 
-    return segmentBuffer
+  // ブラウザが動画コンテナ自体を読み込めるかを確認する
+  private canPlayVideo(file: File): Promise<boolean> {
+    return new Promise(resolve => {
+      const video = document.createElement('video')
+      const url = URL.createObjectURL(file)
+      const finish = (playable: boolean) => {
+        URL.revokeObjectURL(url)
+        video.removeAttribute('src')
+        resolve(playable)
+      }
+      video.preload = 'metadata'
+      video.onloadedmetadata = () => finish(true)
+      video.onerror = () => finish(false)
+      video.src = url
+    })
   }
 
-  private audioBufferToWav(buffer: AudioBuffer): Blob {
-    const length = buffer.length
-    const numberOfChannels = buffer.numberOfChannels
-    const sampleRate = buffer.sampleRate
-    
-    // プランに応じて音声品質を調整（環境変数で判定）
-    const isProPlan = process.env.NODE_ENV === 'production' // 簡易判定
-    const bytesPerSample = isProPlan ? 2 : 1 // Pro: 16ビット, Hobby: 8ビット
-    const blockAlign = numberOfChannels * bytesPerSample
-    const byteRate = sampleRate * blockAlign
-    const dataSize = length * blockAlign
-    const bufferSize = 44 + dataSize
-    
-    const arrayBuffer = new ArrayBuffer(bufferSize)
-    const view = new DataView(arrayBuffer)
-    
-    // WAVヘッダーの書き込み
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i))
+  /**
+   * 分割とエンコードをWeb Workerで実行し、ワーカーの結果を1つずつ取り出す。
+   * ワーカーが使えない環境では同じ処理をメインスレッドで実行する。
+   */
+  private async *runSplit(
+    audioBuffer: AudioBuffer,
+    options: AudioSplitOptions,
+    signal?: AbortSignal
+  ): AsyncGenerator<SplitWorkerMessage> {
+    if (typeof Worker === 'undefined') {
+      console.warn('Web Workerが利用できないため、メインスレッドで分割します')
+      const source: PcmData = {
+        channels: Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) => audioBuffer.getChannelData(channel)),
+        sampleRate: audioBuffer.sampleRate
       }
+      for (const message of splitPcm(source, options)) {
+        throwIfAborted(signal)
+        yield message
+      }
+      return
     }
-    
-    writeString(0, 'RIFF')
-    view.setUint32(4, bufferSize - 8, true)
-    writeString(8, 'WAVE')
-    writeString(12, 'fmt ')
-    view.setUint32(16, 16, true)
-    view.setUint16(20, 1, true)
-    view.setUint16(22, numberOfChannels, true)
-    view.setUint32(24, sampleRate, true)
-    view.setUint32(28, byteRate, true)
-    view.setUint16(32, blockAlign, true)
-    view.setUint16(34, bytesPerSample * 8, true)
-    writeString(36, 'data')
-    view.setUint32(40, dataSize, true)
-    
-    // 音声データの書き込み（プランに応じて品質調整）
-    const channelData = []
-    for (let channel = 0; channel < numberOfChannels; channel++) {
-      channelData.push(buffer.getChannelData(channel))
-    }
-    
-    let offset = 44
-    for (let i = 0; i < length; i++) {
-      for (let channel = 0; channel < numberOfChannels; channel++) {
-        const sample = Math.max(-1, Math.min(1, channelData[channel][i]))
-        
-        if (isProPlan) {
-          // Proプラン: 16ビット品質
-          view.setInt16(offset, sample * 0x7FFF, true)
-          offset += 2
-        } else {
-          // Hobbyプラン: 8ビット品質（ファイルサイズ削減）
-          const quantizedSample = Math.round(sample * 127)
-          view.setInt8(offset, quantizedSample)
-          offset += 1
+
+    const { worker } = this.getWorker(audioBuffer)
+    let finished = false
+
+    const requestNext = () => new Promise<SplitWorkerMessage>((resolve, reject) => {
+      const onAbort = () => reject(createAbortError())
+      if (signal?.aborted) {
+        onAbort()
+        return
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      worker.onmessage = (event: MessageEvent<SplitWorkerMessage>) => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve(event.data)
+      }
+      worker.onerror = (event) => {
+        signal?.removeEventListener('abort', onAbort)
+        reject(new Error(event.message || '音声分割ワーカーでエラーが発生しました'))
+      }
+      const command: SplitWorkerCommand = { type: 'next' }
+      worker.postMessage(command)
+    })
+
+    try {
+      const start: SplitWorkerCommand = { type: 'start', options }
+      worker.postMessage(start)
+
+      while (true) {
+        const message = await requestNext()
+        if (message.type === 'error') {
+          throw new Error(message.message)
+        }
+        if (message.type === 'done') {
+          finished = true
+          return
         }
+        yield message
+      }
+    } finally {
+      worker.onmessage = null
+      worker.onerror = null
+      // 途中で取り出しをやめた場合は、エンコード中の処理も止めるためワーカーを停止する（次に使うときに音声を送り直す）
+      if (!finished && this.worker?.worker === worker) {
+        this.terminateWorker()
       }
     }
-    
-    return new Blob([arrayBuffer], { type: 'audio/wav' })
   }
 
   getAudioDuration(file: File): Promise<number> {
@@ -282,9 +479,12 @@ export class AudioProcessor {
   }
 
   cleanup() {
+    this.decoded = null
+    this.prepared = null
+    this.terminateWorker()
     if (this.audioContext) {
       this.audioContext.close()
       this.audioContext = null
     }
   }
-}
\ No newline at end of file
+}
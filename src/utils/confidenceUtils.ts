@@ -0,0 +1,49 @@
+import type { TranscriptionSegment } from '@/utils/apiUtils'
+
+// セグメントごとの信頼度（0〜1）。Whisperが返す avg_logprob、no_speech_prob、compression_ratio から求める
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low'
+
+// Whisperが温度を上げて再デコードするときの閾値（圧縮率がこれを超えると同じ語の繰り返し、平均の対数確率がこれ未満だと確信度が低い）
+export const COMPRESSION_RATIO_THRESHOLD = 2.4
+export const LOGPROB_THRESHOLD = -1
+
+const HIGH_CONFIDENCE = 0.7 // avg_logprob がおよそ -0.35 以上
+const MEDIUM_CONFIDENCE = 0.5 // avg_logprob がおよそ -0.7 以上
+
+export const CONFIDENCE_LABELS: Record<ConfidenceLevel, string> = {
+  high: '高',
+  medium: '中',
+  low: '低'
+}
+
+/**
+ * トークンの平均確率を基準に、無音らしさと繰り返しの多さで割り引く。
+ * 値が無いサーバー（既定値の0）の場合は、その項目では割り引かない。
+ */
+export function computeConfidence(segment: TranscriptionSegment): number {
+  const tokenProbability = Math.exp(Math.min(0, segment.avg_logprob))
+  // 無音らしいのに文字が出ている区間は、存在しない発話を書き起こしている可能性がある
+  const speechFactor = 1 - Math.min(1, Math.max(0, segment.no_speech_prob)) * 0.5
+  const repetitionFactor = segment.compression_ratio > COMPRESSION_RATIO_THRESHOLD
+    ? COMPRESSION_RATIO_THRESHOLD / segment.compression_ratio
+    : 1
+  return Math.min(1, Math.max(0, tokenProbability * speechFactor * repetitionFactor))
+}
+
+export function getConfidenceLevel(confidence: number): ConfidenceLevel {
+  if (confidence >= HIGH_CONFIDENCE) return 'high'
+  if (confidence >= MEDIUM_CONFIDENCE) return 'medium'
+  return 'low'
+}
+
+/**
+ * 確認が必要なセグメント（信頼度が高くないもの）の番号を、信頼度の低い順に返す。
+ */
+export function getReviewQueue(confidences: number[]): number[] {
+  return confidences
+    .map((confidence, index) => ({ confidence, index }))
+    .filter(({ confidence }) => getConfidenceLevel(confidence) !== 'high')
+    .sort((a, b) => a.confidence - b.confidence || a.index - b.index)
+    .map(({ index }) => index)
+}
@@ -1,6 +1,6 @@
 export class ExportUtils {
-  static downloadFile(content: string, filename: string, mimeType: string = 'text/plain'): void {
-    const blob = new Blob([content], { type: mimeType })
+  static downloadFile(content: string | Blob, filename: string, mimeType: string = 'text/plain'): void {
+    const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType })
     const url = URL.createObjectURL(blob)
     
     const link = document.createElement('a')
@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest'
+import type { PcmData } from '@/utils/audioEncoding'
+import { crc16, crc8, encodeFlac } from '@/utils/flacEncoder'
+
+const ascii = (text: string) => new TextEncoder().encode(text)
+
+class BitReader {
+  position = 0 // ビット単位
+
+  constructor(readonly bytes: Uint8Array) {}
+
+  read(bits: number): number {
+    let value = 0
+    for (let i = 0; i < bits; i++) {
+      const byte = this.bytes[this.position >> 3]
+      value = value * 2 + ((byte >> (7 - (this.position & 7))) & 1)
+      this.position++
+    }
+    return value
+  }
+
+  readSigned(bits: number): number {
+    const value = this.read(bits)
+    return value >= 2 ** (bits - 1) ? value - 2 ** bits : value
+  }
+
+  readUnary(): number {
+    let zeros = 0
+    while (this.read(1) === 0) zeros++
+    return zeros
+  }
+
+  alignToByte() {
+    this.position = Math.ceil(this.position / 8) * 8
+  }
+
+  get byteOffset(): number {
+    return this.position >> 3
+  }
+}
+
+interface DecodedFrame {
+  frameNumber: number
+  sampleRate: number
+  channels: number[][]
+  headerCrcValid: boolean
+  frameCrcValid: boolean
+  subframeTypes: string[]
+}
+
+interface DecodedStream {
+  sampleRate: number
+  channelCount: number
+  bitDepth: number
+  totalSamples: number
+  minBlockSize: number
+  maxBlockSize: number
+  frames: DecodedFrame[]
+}
+
+const SAMPLE_RATES: Record<number, number> = { 0x4: 8000, 0x5: 16000, 0x6: 22050, 0x7: 24000, 0x8: 32000, 0x9: 44100, 0xA: 48000, 0xB: 96000 }
+
+// テスト用の最小のデコーダー（エンコーダーが使う CONSTANT・VERBATIM・FIXED のサブフレームだけを読む）
+function decodeFlac(bytes: Uint8Array): DecodedStream {
+  const reader = new BitReader(bytes)
+  expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('fLaC')
+  reader.read(32)
+  expect(reader.read(1)).toBe(1) // 最後のメタデータブロック
+  expect(reader.read(7)).toBe(0) // STREAMINFO
+  expect(reader.read(24)).toBe(34)
+
+  const minBlockSize = reader.read(16)
+  const maxBlockSize = reader.read(16)
+  reader.read(48) // 最小・最大フレームサイズ
+  const sampleRate = reader.read(20)
+  const channelCount = reader.read(3) + 1
+  const bitDepth = reader.read(5) + 1
+  const totalSamples = reader.read(36)
+  reader.read(128) // MD5
+
+  const frames: DecodedFrame[] = []
+  while (reader.byteOffset < bytes.length) {
+    const frameStart = reader.byteOffset
+    expect(reader.read(14)).toBe(0x3FFE)
+    reader.read(2)
+    const blockSizeCode = reader.read(4)
+    const sampleRateCode = reader.read(4)
+    const channels = reader.read(4) + 1
+    reader.read(4)
+
+    // UTF-8 形式のフレーム番号
+    const first = reader.read(8)
+    let extraBytes = 0
+    while (first & (0x80 >> extraBytes)) extraBytes++
+    let frameNumber = extraBytes === 0 ? first : first & (0xFF >> (extraBytes + 1))
+    for (let i = 1; i < extraBytes; i++) {
+      frameNumber = frameNumber * 64 + (reader.read(8) & 0x3F)
+    }
+
+    expect(blockSizeCode).toBe(0x7)
+    const blockSize = reader.read(16) + 1
+    const frameSampleRate = sampleRateCode === 0xD ? reader.read(16) : SAMPLE_RATES[sampleRateCode]
+    const headerCrcValid = reader.read(8) === crc8(bytes.subarray(frameStart, reader.byteOffset - 1))
+
+    const decoded: number[][] = []
+    const subframeTypes: string[] = []
+    for (let channel = 0; channel < channels; channel++) {
+      reader.read(1)
+      const type = reader.read(6)
+      reader.read(1)
+      if (type === 0) {
+        subframeTypes.push('constant')
+        decoded.push(new Array(blockSize).fill(reader.readSigned(bitDepth)))
+      } else if (type === 1) {
+        subframeTypes.push('verbatim')
+        decoded.push(Array.from({ length: blockSize }, () => reader.readSigned(bitDepth)))
+      } else {
+        const order = type & 0x7
+        subframeTypes.push(`fixed${order}`)
+        const samples = Array.from({ length: order }, () => reader.readSigned(bitDepth))
+        expect(reader.read(2)).toBe(0)
+        expect(reader.read(4)).toBe(0)
+        const parameter = reader.read(4)
+        const coefficients = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]][order]
+        for (let i = order; i < blockSize; i++) {
+          const folded = reader.readUnary() * 2 ** parameter + reader.read(parameter)
+          const residual = folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2
+          const prediction = coefficients.reduce((sum, coefficient, j) => sum + coefficient * samples[i - 1 - j], 0)
+          samples.push(prediction + residual)
+        }
+        decoded.push(samples)
+      }
+    }
+
+    reader.alignToByte()
+    const frameCrcValid = reader.read(16) === crc16(bytes.subarray(frameStart, reader.byteOffset - 2))
+    frames.push({ frameNumber, sampleRate: frameSampleRate, channels: decoded, headerCrcValid, frameCrcValid, subframeTypes })
+  }
+
+  return { sampleRate, channelCount, bitDepth, totalSamples, minBlockSize, maxBlockSize, frames }
+}
+
+async function encodeAndDecode(pcm: PcmData, bitDepth: 8 | 16, start = 0, end = pcm.channels[0].length) {
+  const blob = encodeFlac(pcm, start, end, bitDepth)
+  expect(blob.type).toBe('audio/flac')
+  return decodeFlac(new Uint8Array(await blob.arrayBuffer()))
+}
+
+// 全フレームを連結したチャンネルごとのサンプル
+function samplesOf(stream: DecodedStream): number[][] {
+  return Array.from({ length: stream.channelCount }, (_, channel) => stream.frames.flatMap(frame => frame.channels[channel]))
+}
+
+function quantized(channel: Float32Array, bitDepth: 8 | 16): number[] {
+  const scale = bitDepth === 16 ? 0x7FFF : 0x7F
+  // Math.round は -0 を返すことがあるため、0 にそろえる
+  return Array.from(channel, sample => Math.round(Math.max(-1, Math.min(1, sample)) * scale) || 0)
+}
+
+describe('crc8 / crc16', () => {
+  it('FLACのCRC（CRC-8 多項式0x07、CRC-16 多項式0x8005、初期値0）の既知の値と一致する', () => {
+    expect(crc8(ascii('123456789'))).toBe(0xF4)
+    expect(crc16(ascii('123456789'))).toBe(0xFEE8)
+    expect(crc8(new Uint8Array())).toBe(0)
+    expect(crc16(new Uint8Array())).toBe(0)
+  })
+})
+
+describe('encodeFlac', () => {
+  it('fLaC マーカーと STREAMINFO に形式とサンプル数を書き込む', async () => {
+    const pcm: PcmData = { channels: [new Float32Array(5000), new Float32Array(5000)], sampleRate: 16000 }
+
+    const stream = await encodeAndDecode(pcm, 16, 1000, 4500)
+
+    expect(stream).toMatchObject({
+      sampleRate: 16000,
+      channelCount: 2,
+      bitDepth: 16,
+      totalSamples: 3500,
+      minBlockSize: 4096,
+      maxBlockSize: 4096
+    })
+  })
+
+  it('フレームヘッダーとフレーム全体のCRCが正しい', async () => {
+    const channel = Float32Array.from({ length: 10000 }, (_, i) => Math.sin(i / 10) * 0.5)
+
+    const stream = await encodeAndDecode({ channels: [channel], sampleRate: 16000 }, 16)
+
+    expect(stream.frames.map(frame => frame.frameNumber)).toEqual([0, 1, 2])
+    expect(stream.frames.every(frame => frame.headerCrcValid && frame.frameCrcValid)).toBe(true)
+    expect(stream.frames[0].subframeTypes[0]).toMatch(/^fixed/)
+    expect(samplesOf(stream)).toEqual([quantized(channel, 16)])
+  })
+
+  it('無音や一定の値は CONSTANT サブフレームにして、元の値に戻せる', async () => {
+    const pcm: PcmData = { channels: [new Float32Array(300), new Float32Array(300).fill(0.25)], sampleRate: 16000 }
+
+    const stream = await encodeAndDecode(pcm, 16)
+
+    expect(stream.frames[0].subframeTypes).toEqual(['constant', 'constant'])
+    expect(samplesOf(stream)).toEqual([quantized(pcm.channels[0], 16), quantized(pcm.channels[1], 16)])
+  })
+
+  it('短い傾斜は固定予測子で符号化し、元の値に戻せる', async () => {
+    const ramp = Float32Array.from({ length: 64 }, (_, i) => (i - 32) / 64)
+
+    const stream = await encodeAndDecode({ channels: [ramp], sampleRate: 16000 }, 16)
+
+    expect(stream.frames[0].subframeTypes[0]).toMatch(/^fixed/)
+    expect(samplesOf(stream)).toEqual([quantized(ramp, 16)])
+  })
+
+  it('予測で縮まない雑音や8ビット、一覧にないサンプルレートも元の値に戻せる', async () => {
+    // 再現できるよう、疑似乱数（線形合同法）で雑音を作る
+    let seed = 1
+    const noise = Float32Array.from({ length: 5000 }, () => {
+      seed = (seed * 1103515245 + 12345) % 0x80000000
+      return seed / 0x40000000 - 1
+    })
+    const pcm: PcmData = { channels: [noise], sampleRate: 11025 }
+
+    const stream16 = await encodeAndDecode(pcm, 16)
+    const stream8 = await encodeAndDecode(pcm, 8)
+
+    expect(stream16.frames[0].subframeTypes).toEqual(['verbatim'])
+    expect(stream16.frames.map(frame => frame.sampleRate)).toEqual([11025, 11025])
+    expect(samplesOf(stream16)).toEqual([quantized(noise, 16)])
+    expect(samplesOf(stream8)).toEqual([quantized(noise, 8)])
+    expect(stream8.frames.every(frame => frame.headerCrcValid && frame.frameCrcValid)).toBe(true)
+  })
+})
@@ -0,0 +1,299 @@
+import type { PcmData } from '@/utils/audioEncoding'
+
+// 1フレームあたりのサンプル数（FLACの標準値）
+const BLOCK_SIZE = 4096
+// 固定予測子の最大次数
+const MAX_FIXED_ORDER = 4
+// 4ビットのRiceパラメータで表現できる最大値（15はエスケープ用）
+const MAX_RICE_PARAMETER = 14
+
+// フレームヘッダーで直接指定できるサンプルレート
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  8000: 0x4, 16000: 0x5, 22050: 0x6, 24000: 0x7, 32000: 0x8, 44100: 0x9, 48000: 0xA, 96000: 0xB
+}
+const BIT_DEPTH_CODES: Record<number, number> = { 8: 0x1, 16: 0x4 }
+
+const CRC8_TABLE = buildCrcTable(0x07, 8)
+const CRC16_TABLE = buildCrcTable(0x8005, 16)
+
+/**
+ * PCMデータの指定範囲を可逆圧縮のFLACにエンコードする。
+ * 固定予測子（次数0〜4）とRice符号のみを使う最小構成で、チャンネルは独立して符号化する。
+ */
+export function encodeFlac(
+  pcm: PcmData,
+  startSample: number,
+  endSample: number,
+  bitDepth: 8 | 16
+): Blob {
+  const totalSamples = endSample - startSample
+  const channels = pcm.channels.map(channelData => quantize(channelData, startSample, endSample, bitDepth))
+
+  const chunks: Uint8Array[] = [encodeStreamHeader(pcm.sampleRate, channels.length, bitDepth, totalSamples)]
+  let frameNumber = 0
+  for (let offset = 0; offset < totalSamples; offset += BLOCK_SIZE) {
+    const blockSize = Math.min(BLOCK_SIZE, totalSamples - offset)
+    const blocks = channels.map(samples => samples.subarray(offset, offset + blockSize))
+    chunks.push(encodeFrame(blocks, frameNumber, pcm.sampleRate, bitDepth))
+    frameNumber++
+  }
+
+  return new Blob(chunks, { type: 'audio/flac' })
+}
+
+function quantize(channelData: Float32Array, start: number, end: number, bitDepth: 8 | 16): Int32Array {
+  const scale = bitDepth === 16 ? 0x7FFF : 0x7F
+  const samples = new Int32Array(end - start)
+  for (let i = start; i < end; i++) {
+    const sample = Math.max(-1, Math.min(1, channelData[i]))
+    samples[i - start] = Math.round(sample * scale)
+  }
+  return samples
+}
+
+function encodeStreamHeader(sampleRate: number, channelCount: number, bitDepth: number, totalSamples: number): Uint8Array {
+  const writer = new BitWriter()
+  writer.writeBits(0x664C6143, 32) // "fLaC"
+
+  // メタデータブロックヘッダー（最後のブロック, STREAMINFO, 34バイト）
+  writer.writeBits(1, 1)
+  writer.writeBits(0, 7)
+  writer.writeBits(34, 24)
+
+  // STREAMINFO
+  writer.writeBits(BLOCK_SIZE, 16) // 最小ブロックサイズ
+  writer.writeBits(BLOCK_SIZE, 16) // 最大ブロックサイズ
+  writer.writeBits(0, 24) // 最小フレームサイズ（不明）
+  writer.writeBits(0, 24) // 最大フレームサイズ（不明）
+  writer.writeBits(sampleRate, 20)
+  writer.writeBits(channelCount - 1, 3)
+  writer.writeBits(bitDepth - 1, 5)
+  writer.writeBits(Math.floor(totalSamples / 0x100000000), 4)
+  writer.writeBits(totalSamples >>> 0, 32)
+  for (let i = 0; i < 4; i++) {
+    writer.writeBits(0, 32) // MD5（未計算）
+  }
+
+  return writer.toBytes()
+}
+
+function encodeFrame(blocks: Int32Array[], frameNumber: number, sampleRate: number, bitDepth: number): Uint8Array {
+  const writer = new BitWriter()
+  const blockSize = blocks[0].length
+
+  // 一覧にないサンプルレートはヘッダー末尾に16ビット（Hz）で書き込む
+  const sampleRateCode = SAMPLE_RATE_CODES[sampleRate] ?? (sampleRate < 0x10000 ? 0xD : 0x0)
+
+  // フレームヘッダー
+  writer.writeBits(0x3FFE, 14) // 同期コード
+  writer.writeBits(0, 1) // 予約
+  writer.writeBits(0, 1) // 固定ブロックサイズ
+  writer.writeBits(0x7, 4) // ブロックサイズはヘッダー末尾の16ビットで指定
+  writer.writeBits(sampleRateCode, 4)
+  writer.writeBits(blocks.length - 1, 4) // 独立チャンネル
+  writer.writeBits(BIT_DEPTH_CODES[bitDepth], 3)
+  writer.writeBits(0, 1) // 予約
+  writeUtf8Number(writer, frameNumber)
+  writer.writeBits(blockSize - 1, 16)
+  if (sampleRateCode === 0xD) {
+    writer.writeBits(sampleRate, 16)
+  }
+  writer.writeBits(crc8(writer.toBytes()), 8)
+
+  for (const samples of blocks) {
+    writeSubframe(writer, samples, bitDepth)
+  }
+
+  writer.alignToByte()
+  writer.writeBits(crc16(writer.toBytes()), 16)
+  return writer.toBytes()
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, bitDepth: number): void {
+  // 全サンプルが同じ値ならCONSTANTサブフレーム
+  if (samples.every(sample => sample === samples[0])) {
+    writer.writeBits(0, 8)
+    writer.writeSigned(samples[0], bitDepth)
+    return
+  }
+
+  let best: { order: number; residuals: Int32Array; riceParameter: number; bits: number } | null = null
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, samples.length - 1); order++) {
+    const residuals = computeFixedResiduals(samples, order)
+    const { parameter, bits } = chooseRiceParameter(residuals)
+    const totalBits = order * bitDepth + 6 + 4 + bits
+    if (!best || totalBits < best.bits) {
+      best = { order, residuals, riceParameter: parameter, bits: totalBits }
+    }
+  }
+
+  // 予測で縮まない場合はVERBATIMサブフレーム
+  if (!best || best.bits >= samples.length * bitDepth) {
+    writer.writeBits(0x02, 8)
+    for (const sample of samples) {
+      writer.writeSigned(sample, bitDepth)
+    }
+    return
+  }
+
+  writer.writeBits((0x08 | best.order) << 1, 8) // FIXEDサブフレーム
+  for (let i = 0; i < best.order; i++) {
+    writer.writeSigned(samples[i], bitDepth)
+  }
+  writer.writeBits(0, 2) // 4ビットRiceパラメータ
+  writer.writeBits(0, 4) // パーティション次数0
+  writer.writeBits(best.riceParameter, 4)
+  for (const residual of best.residuals) {
+    const folded = residual >= 0 ? residual * 2 : -residual * 2 - 1
+    writer.writeUnary(Math.floor(folded / (1 << best.riceParameter)))
+    writer.writeBits(folded & ((1 << best.riceParameter) - 1), best.riceParameter)
+  }
+}
+
+function computeFixedResiduals(samples: Int32Array, order: number): Int32Array {
+  const residuals = new Int32Array(samples.length - order)
+  for (let i = order; i < samples.length; i++) {
+    let prediction = 0
+    switch (order) {
+      case 1: prediction = samples[i - 1]; break
+      case 2: prediction = 2 * samples[i - 1] - samples[i - 2]; break
+      case 3: prediction = 3 * samples[i - 1] - 3 * samples[i - 2] + samples[i - 3]; break
+      case 4: prediction = 4 * samples[i - 1] - 6 * samples[i - 2] + 4 * samples[i - 3] - samples[i - 4]; break
+    }
+    residuals[i - order] = samples[i] - prediction
+  }
+  return residuals
+}
+
+function chooseRiceParameter(residuals: Int32Array): { parameter: number; bits: number } {
+  let sum = 0
+  for (const residual of residuals) {
+    sum += residual >= 0 ? residual * 2 : -residual * 2 - 1
+  }
+
+  // 平均値から推定した値の前後だけを実際に計算する
+  const mean = residuals.length > 0 ? sum / residuals.length : 0
+  const estimate = mean > 1 ? Math.floor(Math.log2(mean)) : 0
+  let best = { parameter: 0, bits: Infinity }
+  for (let parameter = Math.max(0, estimate - 1); parameter <= Math.min(MAX_RICE_PARAMETER, estimate + 1); parameter++) {
+    let bits = residuals.length * (parameter + 1)
+    for (const residual of residuals) {
+      const folded = residual >= 0 ? residual * 2 : -residual * 2 - 1
+      bits += Math.floor(folded / (1 << parameter))
+    }
+    if (bits < best.bits) {
+      best = { parameter, bits }
+    }
+  }
+  return best
+}
+
+// フレーム番号はUTF-8と同じ可変長形式で書き込む
+function writeUtf8Number(writer: BitWriter, value: number): void {
+  if (value < 0x80) {
+    writer.writeBits(value, 8)
+    return
+  }
+
+  const limits = [0x800, 0x10000, 0x200000, 0x4000000, 0x80000000]
+  const extraBytes = limits.findIndex(limit => value < limit) + 1
+  const leadingBits = 7 - extraBytes - 1
+  const prefix = (0xFF << (8 - extraBytes - 1)) & 0xFF
+  writer.writeBits(prefix | ((value >>> (extraBytes * 6)) & ((1 << leadingBits) - 1)), 8)
+  for (let i = extraBytes - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | ((value >>> (i * 6)) & 0x3F), 8)
+  }
+}
+
+function buildCrcTable(polynomial: number, width: 8 | 16): Uint16Array {
+  const topBit = 1 << (width - 1)
+  const mask = (1 << width) - 1
+  const table = new Uint16Array(256)
+  for (let i = 0; i < 256; i++) {
+    let value = i << (width - 8)
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & topBit ? ((value << 1) ^ polynomial) & mask : (value << 1) & mask
+    }
+    table[i] = value
+  }
+  return table
+}
+
+// フレームヘッダーのCRC-8（多項式 x^8 + x^2 + x + 1、初期値0）
+export function crc8(bytes: Uint8Array): number {
+  return crc(CRC8_TABLE, 8, bytes)
+}
+
+// フレーム全体のCRC-16（多項式 x^16 + x^15 + x^2 + 1、初期値0）
+export function crc16(bytes: Uint8Array): number {
+  return crc(CRC16_TABLE, 16, bytes)
+}
+
+function crc(table: Uint16Array, width: 8 | 16, bytes: Uint8Array): number {
+  const mask = (1 << width) - 1
+  let value = 0
+  for (const byte of bytes) {
+    value = width === 8
+      ? table[value ^ byte]
+      : ((value << 8) ^ table[(value >> 8) ^ byte]) & mask
+  }
+  return value
+}
+
+class BitWriter {
+  private buffer = new Uint8Array(1024)
+  private length = 0
+  private current = 0
+  private bitCount = 0
+
+  writeBits(value: number, bits: number): void {
+    let remaining = bits
+    while (remaining > 0) {
+      const take = Math.min(remaining, 8 - this.bitCount)
+      const shift = remaining - take
+      const chunk = (value >>> shift) & ((1 << take) - 1)
+      this.current = (this.current << take) | chunk
+      this.bitCount += take
+      remaining -= take
+      if (this.bitCount === 8) {
+        this.pushByte(this.current)
+        this.current = 0
+        this.bitCount = 0
+      }
+    }
+  }
+
+  writeSigned(value: number, bits: number): void {
+    this.writeBits(bits >= 32 ? value >>> 0 : value & ((1 << bits) - 1), bits)
+  }
+
+  writeUnary(zeros: number): void {
+    let remaining = zeros
+    while (remaining > 0) {
+      const take = Math.min(remaining, 24)
+      this.writeBits(0, take)
+      remaining -= take
+    }
+    this.writeBits(1, 1)
+  }
+
+  alignToByte(): void {
+    if (this.bitCount > 0) {
+      this.writeBits(0, 8 - this.bitCount)
+    }
+  }
+
+  // 書き込み済みのバイト列（端数のビットは含まない）
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length)
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2)
+      grown.set(this.buffer)
+      this.buffer = grown
+    }
+    this.buffer[this.length++] = byte
+  }
+}
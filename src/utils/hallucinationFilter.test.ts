@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import type { TranscriptionResult, TranscriptionSegment } from '@/utils/apiUtils'
+import {
+  DEFAULT_HALLUCINATION_FILTER,
+  applyHallucinationFilter,
+  detectHallucinations,
+  parseHallucinationBlacklist
+} from '@/utils/hallucinationFilter'
+
+function segment(start: number, end: number, text: string, fields: Partial<TranscriptionSegment> = {}): TranscriptionSegment {
+  return {
+    id: 0,
+    seek: 0,
+    start,
+    end,
+    text,
+    tokens: [],
+    temperature: 0,
+    avg_logprob: -0.2,
+    compression_ratio: 1.2,
+    no_speech_prob: 0.01,
+    ...fields
+  }
+}
+
+function resultOf(segments: TranscriptionSegment[]): TranscriptionResult {
+  return {
+    text: segments.map(item => item.text).join(''),
+    segments,
+    words: segments.map(item => ({ word: item.text, start: item.start, end: item.end })),
+    language: 'ja',
+    duration: segments[segments.length - 1].end
+  }
+}
+
+describe('detectHallucinations', () => {
+  it('無音の確率・圧縮率・文字列の繰り返し・既知のフレーズで判定する', () => {
+    const reasons = detectHallucinations([
+      segment(0, 5, '今日は晴れです。'),
+      segment(5, 10, 'えー', { no_speech_prob: 0.8, avg_logprob: -1.2 }),
+      segment(10, 15, 'あああ', { compression_ratio: 3 }),
+      segment(15, 20, 'はいはいはいはいはいはいはいはい'),
+      segment(20, 25, 'ご視聴ありがとうございました。')
+    ], DEFAULT_HALLUCINATION_FILTER)
+
+    expect(reasons).toEqual([[], ['no_speech'], ['repetition'], ['repetition'], ['blacklist']])
+  })
+
+  it('無音の確率が高くても、トークンの確率が高いセグメントは無音としない', () => {
+    const [reasons] = detectHallucinations(
+      [segment(0, 5, 'はい、そうです。', { no_speech_prob: 0.9, avg_logprob: -0.3 })],
+      DEFAULT_HALLUCINATION_FILTER
+    )
+
+    expect(reasons).toEqual([])
+  })
+
+  it('長い発話の中で言われた既知のフレーズは該当としない', () => {
+    const [reasons] = detectHallucinations(
+      [segment(0, 10, '本日の説明会は以上です。最後までご視聴ありがとうございました。次回は来月の第二週に開催します。')],
+      DEFAULT_HALLUCINATION_FILTER
+    )
+
+    expect(reasons).toEqual([])
+  })
+
+  it('同じ文が3回以上続いた場合は、2回目以降を繰り返しとする', () => {
+    const reasons = detectHallucinations([
+      segment(0, 2, 'よろしくお願いします。'),
+      segment(2, 4, 'よろしくお願いします'),
+      segment(4, 6, 'よろしく お願いします。'),
+      segment(6, 8, '始めます。')
+    ], DEFAULT_HALLUCINATION_FILTER)
+
+    expect(reasons).toEqual([[], ['repetition'], ['repetition'], []])
+  })
+})
+
+describe('applyHallucinationFilter', () => {
+  const result = resultOf([
+    segment(0, 5, '今日は晴れです。'),
+    segment(5, 10, 'ご視聴ありがとうございました。'),
+    segment(10, 15, '明日は雨です。')
+  ])
+
+  it('flag では結果を残して印だけを付ける', () => {
+    const filtered = applyHallucinationFilter(result, DEFAULT_HALLUCINATION_FILTER)
+
+    expect(filtered.segments).toHaveLength(3)
+    expect(filtered.flagged).toEqual([
+      { start: 5, end: 10, text: 'ご視聴ありがとうございました。', reasons: ['blacklist'], removed: false }
+    ])
+  })
+
+  it('remove では該当するセグメントと単語を取り除き、本文を作り直す', () => {
+    const filtered = applyHallucinationFilter(result, { ...DEFAULT_HALLUCINATION_FILTER, mode: 'remove' })
+
+    expect(filtered.text).toBe('今日は晴れです。明日は雨です。')
+    expect(filtered.words.map(word => word.word)).toEqual(['今日は晴れです。', '明日は雨です。'])
+    expect(filtered.flagged?.[0].removed).toBe(true)
+  })
+
+  it('以前に取り除いた記録は、フィルターを使わない場合も残す', () => {
+    const removed = applyHallucinationFilter(result, { ...DEFAULT_HALLUCINATION_FILTER, mode: 'remove' })
+    const filtered = applyHallucinationFilter(removed, { ...DEFAULT_HALLUCINATION_FILTER, mode: 'off' })
+
+    expect(filtered.flagged).toEqual(removed.flagged)
+  })
+})
+
+describe('parseHallucinationBlacklist', () => {
+  it('改行だけで区切り、空行を除く', () => {
+    expect(parseHallucinationBlacklist('ご視聴、ありがとうございました\n\n  Thanks for watching  \n')).toEqual([
+      'ご視聴、ありがとうございました',
+      'Thanks for watching'
+    ])
+  })
+})
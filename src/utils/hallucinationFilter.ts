@@ -0,0 +1,177 @@
+import type { HallucinationFlag, HallucinationReason, TranscriptionResult, TranscriptionSegment } from '@/utils/apiUtils'
+import { MergeUtils } from '@/utils/mergeUtils'
+import { COMPRESSION_RATIO_THRESHOLD, LOGPROB_THRESHOLD } from '@/utils/confidenceUtils'
+
+// 統合後の結果から、Whisperが無音区間で作りがちな定型句や、同じ文の繰り返しを見つける
+
+// off: 何もしない, flag: 印を付けて残す, remove: 結果から取り除く（取り除いたものも一覧には表示する）
+export type HallucinationFilterMode = 'off' | 'flag' | 'remove'
+
+export interface HallucinationFilterOptions {
+  mode: HallucinationFilterMode
+  blacklist: string[] // 既知の幻聴フレーズ
+  noSpeechThreshold: number // no_speech_prob がこれ以上で、avg_logprob が logprobThreshold 未満なら無音とみなす
+  logprobThreshold: number // no_speech_prob が高くても、avg_logprob がこれ以上なら発話として残す
+  compressionRatioThreshold: number // compression_ratio がこれを超えたら繰り返しとみなす
+}
+
+const BLACKLIST_STORAGE_KEY = 'mogiokoshi:hallucinationBlacklist'
+
+// 動画の字幕で学習された、無音区間で出やすいフレーズ
+export const DEFAULT_HALLUCINATION_BLACKLIST = [
+  'ご視聴ありがとうございました',
+  'ご清聴ありがとうございました',
+  'チャンネル登録お願いします',
+  'チャンネル登録よろしくお願いします',
+  '最後までご視聴いただきありがとうございます',
+  'おやすみなさい',
+  'Thank you for watching',
+  'Thanks for watching',
+  'Please subscribe'
+]
+
+export const DEFAULT_HALLUCINATION_FILTER: HallucinationFilterOptions = {
+  mode: 'flag',
+  blacklist: DEFAULT_HALLUCINATION_BLACKLIST,
+  noSpeechThreshold: 0.6,
+  logprobThreshold: LOGPROB_THRESHOLD,
+  compressionRatioThreshold: COMPRESSION_RATIO_THRESHOLD
+}
+
+export const HALLUCINATION_REASON_LABELS: Record<HallucinationReason, string> = {
+  no_speech: '無音',
+  repetition: '繰り返し',
+  blacklist: '定型句'
+}
+
+// 同じ文がこの回数以上続いたら、2回目以降を繰り返しとみなす
+const REPEATED_SEGMENT_RUN = 3
+// 2〜30文字の並びが4回以上続き、全体で16文字以上になるものを繰り返しとみなす
+const REPEATED_NGRAM_PATTERN = /(.{2,30}?)\1{3,}/
+const MIN_REPEATED_LENGTH = 16
+
+export function saveHallucinationBlacklist(text: string) {
+  localStorage.setItem(BLACKLIST_STORAGE_KEY, text)
+}
+
+// 保存されていない場合は既定のフレーズ（1行に1つ）
+export function loadHallucinationBlacklist(): string {
+  try {
+    return localStorage.getItem(BLACKLIST_STORAGE_KEY) ?? DEFAULT_HALLUCINATION_BLACKLIST.join('\n')
+  } catch {
+    return DEFAULT_HALLUCINATION_BLACKLIST.join('\n')
+  }
+}
+
+// 1行に1フレーズ（フレーズ内に読点を含められるよう、改行だけで区切る）
+export function parseHallucinationBlacklist(text: string): string[] {
+  return text.split('\n').map(phrase => phrase.trim()).filter(phrase => phrase.length > 0)
+}
+
+// 比較のため、空白・句読点・記号を除いて小文字にする
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '')
+}
+
+function hasRepeatedNgram(text: string): boolean {
+  const match = text.replace(/\s+/g, ' ').match(REPEATED_NGRAM_PATTERN)
+  return match !== null && match[0].length >= MIN_REPEATED_LENGTH
+}
+
+// セグメントの大半が既知のフレーズなら該当とする（長い発話の中で言われた場合は残す）
+function matchesBlacklist(text: string, phrases: string[]): boolean {
+  const normalized = normalizeText(text)
+  if (!normalized) return false
+  return phrases.some(phrase => phrase.length > 0 && normalized.includes(phrase) && phrase.length * 2 >= normalized.length)
+}
+
+/**
+ * セグメントごとに幻聴が疑われる理由を調べる。該当しないセグメントは空の配列。
+ */
+export function detectHallucinations(
+  segments: TranscriptionSegment[],
+  options: HallucinationFilterOptions
+): HallucinationReason[][] {
+  const phrases = options.blacklist.map(normalizeText)
+  const reasons = segments.map(segment => {
+    const found: HallucinationReason[] = []
+    // Whisperと同じく、無音の確率が高くてもトークンの確率が高い場合は発話とみなす
+    if (segment.no_speech_prob >= options.noSpeechThreshold && segment.avg_logprob < options.logprobThreshold) {
+      found.push('no_speech')
+    }
+    if (segment.compression_ratio > options.compressionRatioThreshold || hasRepeatedNgram(segment.text)) {
+      found.push('repetition')
+    }
+    if (matchesBlacklist(segment.text, phrases)) {
+      found.push('blacklist')
+    }
+    return found
+  })
+
+  // セグメントをまたいで同じ文が続く場合
+  let runStart = 0
+  for (let index = 1; index <= segments.length; index++) {
+    const same = index < segments.length &&
+      normalizeText(segments[index].text) !== '' &&
+      normalizeText(segments[index].text) === normalizeText(segments[runStart].text)
+    if (same) continue
+
+    if (index - runStart >= REPEATED_SEGMENT_RUN) {
+      for (let repeated = runStart + 1; repeated < index; repeated++) {
+        if (!reasons[repeated].includes('repetition')) {
+          reasons[repeated].push('repetition')
+        }
+      }
+    }
+    runStart = index
+  }
+
+  return reasons
+}
+
+/**
+ * 統合後の結果に幻聴フィルターをかける。remove の場合は該当するセグメントとその区間の単語を取り除き、本文を作り直す。
+ * 見つかったセグメントは flagged に記録する。以前に取り除いたものは、再処理した結果に再度かけても一覧に残す。
+ */
+export function applyHallucinationFilter(
+  result: TranscriptionResult,
+  options: HallucinationFilterOptions
+): TranscriptionResult {
+  const previouslyRemoved = (result.flagged ?? []).filter(flag => flag.removed)
+  if (options.mode === 'off') {
+    return withFlags(result, previouslyRemoved)
+  }
+
+  const reasons = detectHallucinations(result.segments, options)
+  const remove = options.mode === 'remove'
+  const flags: HallucinationFlag[] = result.segments.flatMap((segment, index) => reasons[index].length > 0
+    ? [{ start: segment.start, end: segment.end, text: segment.text.trim(), reasons: reasons[index], removed: remove }]
+    : [])
+  const allFlags = [...previouslyRemoved, ...flags].sort((a, b) => a.start - b.start)
+
+  if (!remove || flags.length === 0) {
+    return withFlags(result, allFlags)
+  }
+
+  const segments = result.segments.filter((_, index) => reasons[index].length === 0)
+  const words = result.words.filter(word => !isInFlaggedRange(word, flags))
+  return withFlags({
+    ...result,
+    text: MergeUtils.joinTokens(segments.map(segment => segment.text.trim())),
+    segments,
+    words
+  }, allFlags)
+}
+
+// 単語の中央が幻聴の区間に入っているか（単語とセグメントの境界は多少ずれることがある）
+export function isInFlaggedRange(word: { start: number; end: number }, flags: HallucinationFlag[]): boolean {
+  const middle = (word.start + word.end) / 2
+  return flags.some(flag => middle >= flag.start && middle <= flag.end)
+}
+
+// 以前の記録は置き換える
+function withFlags(result: TranscriptionResult, flags: HallucinationFlag[]): TranscriptionResult {
+  const next: TranscriptionResult = { ...result }
+  delete next.flagged
+  return flags.length > 0 ? { ...next, flagged: flags } : next
+}
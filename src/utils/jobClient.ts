@@ -0,0 +1,174 @@
+import { getUploadFilename } from '@/utils/audioEncoding'
+import type { TranscriptionSegmentInput } from '@/utils/apiUtils'
+import { createAbortError, delay, isAbortError } from '@/utils/abortUtils'
+import { CreateJobRequest, JobEvent, JobSnapshot, isJobFinished } from '@/lib/jobs/types'
+
+export type { JobEvent, JobSnapshot } from '@/lib/jobs/types'
+
+const ACTIVE_JOB_STORAGE_KEY = 'mogiokoshi:activeJob'
+const POLL_INTERVAL = 2000 // ミリ秒
+const MAX_UPLOAD_RETRIES = 3
+
+export interface ActiveJob {
+  id: string
+  fileName: string
+}
+
+// 処理中のジョブを記録し、タブを閉じても再度開いたときに続きを表示できるようにする
+export function saveActiveJob(job: ActiveJob) {
+  localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, JSON.stringify(job))
+}
+
+export function loadActiveJob(): ActiveJob | null {
+  try {
+    const stored = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+export function clearActiveJob() {
+  localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY)
+}
+
+/**
+ * サーバー側ジョブAPIのクライアント。
+ * ブラウザはセグメントをアップロードするだけで、文字起こしのキュー・再試行・統合はサーバーが行う。
+ */
+export class JobAPIClient {
+  private readonly baseUrl: string
+
+  constructor(baseUrl: string = '/api') {
+    this.baseUrl = baseUrl
+  }
+
+  async createJob(request: CreateJobRequest, signal?: AbortSignal): Promise<JobSnapshot> {
+    const response = await fetch(`${this.baseUrl}/jobs`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    })
+    return this.parseResponse(response)
+  }
+
+  async uploadSegment(
+    jobId: string,
+    segment: TranscriptionSegmentInput,
+    retryCount: number = 0,
+    signal?: AbortSignal
+  ): Promise<JobSnapshot> {
+    const formData = new FormData()
+    formData.append('file', segment.blob, getUploadFilename(segment.blob))
+    formData.append('index', String(segment.index))
+    formData.append('startTime', String(segment.startTime))
+    formData.append('endTime', String(segment.endTime))
+    if (segment.level !== undefined && Number.isFinite(segment.level)) {
+      formData.append('level', String(segment.level))
+    }
+
+    let response: Response | null = null
+    try {
+      response = await fetch(`${this.baseUrl}/jobs/${jobId}/segments`, {
+        method: 'POST',
+        body: formData,
+        signal,
+      })
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error
+      }
+      console.error(`セグメント ${segment.index} のアップロードエラー:`, error)
+    }
+
+    // 通信エラーとサーバーエラーは再試行する（同じセグメントの再送はサーバー側で上書きされる）
+    if ((!response || response.status >= 500) && retryCount < MAX_UPLOAD_RETRIES) {
+      const retryDelay = 1000 * Math.pow(2, retryCount)
+      console.log(`セグメント ${segment.index} のアップロードに失敗、${retryDelay}ms後に再試行します`)
+      await delay(retryDelay, signal)
+      return this.uploadSegment(jobId, segment, retryCount + 1, signal)
+    }
+    if (!response) {
+      throw new Error('セグメントのアップロードに失敗しました')
+    }
+    return this.parseResponse(response)
+  }
+
+  async getJob(jobId: string, signal?: AbortSignal): Promise<JobSnapshot> {
+    const response = await fetch(`${this.baseUrl}/jobs/${jobId}`, { signal })
+    return this.parseResponse(response)
+  }
+
+  async deleteJob(jobId: string): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/jobs/${jobId}`, { method: 'DELETE' })
+    if (!response.ok && response.status !== 404) {
+      await this.parseResponse(response)
+    }
+  }
+
+  /**
+   * ジョブのイベントを Server-Sent Events で受け取り、ジョブが終わったら最終状態を返す。
+   * 接続が切れた場合は EventSource が自動で再接続し、再接続時に snapshot を受け取り直す。
+   * signal を中止すると受信をやめる。
+   */
+  followJob(jobId: string, onEvent: (event: JobEvent) => void, signal?: AbortSignal): Promise<JobSnapshot> {
+    if (typeof EventSource === 'undefined') {
+      return this.waitForJob(jobId, job => onEvent({ type: 'snapshot', job }), signal)
+    }
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError())
+        return
+      }
+
+      const source = new EventSource(`${this.baseUrl}/jobs/${jobId}/events`)
+      signal?.addEventListener('abort', () => {
+        source.close()
+        reject(createAbortError())
+      }, { once: true })
+
+      source.onmessage = (message: MessageEvent<string>) => {
+        const event: JobEvent = JSON.parse(message.data)
+        onEvent(event)
+        if (event.type === 'finished') {
+          source.close()
+          resolve(event.job)
+        }
+      }
+
+      source.onerror = () => {
+        // 再接続できない場合（ジョブが存在しないなど）は状態を取得してエラー内容を確かめる
+        if (source.readyState === EventSource.CLOSED) {
+          this.getJob(jobId).then(
+            job => isJobFinished(job) ? resolve(job) : reject(new Error('進捗の受信が中断されました')),
+            reject
+          )
+        }
+      }
+    })
+  }
+
+  /**
+   * ジョブが終わるまで状態を取得し続ける。
+   */
+  async waitForJob(jobId: string, onUpdate?: (job: JobSnapshot) => void, signal?: AbortSignal): Promise<JobSnapshot> {
+    while (true) {
+      const job = await this.getJob(jobId, signal)
+      onUpdate?.(job)
+      if (isJobFinished(job)) {
+        return job
+      }
+      await delay(POLL_INTERVAL, signal)
+    }
+  }
+
+  private async parseResponse(response: Response): Promise<JobSnapshot> {
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+    }
+    return data
+  }
+}
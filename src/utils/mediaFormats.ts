@@ -0,0 +1,52 @@
+export type MediaKind = 'audio' | 'video'
+
+export interface MediaFormat {
+  label: string
+  kind: MediaKind
+  extensions: string[]
+  mimeTypes: string[]
+}
+
+// アップロードできる形式の一覧（アップローダーとフッターの表示もここから生成する）
+export const SUPPORTED_MEDIA_FORMATS: MediaFormat[] = [
+  { label: 'MP3', kind: 'audio', extensions: ['.mp3'], mimeTypes: ['audio/mp3', 'audio/mpeg'] },
+  { label: 'WAV', kind: 'audio', extensions: ['.wav'], mimeTypes: ['audio/wav', 'audio/x-wav', 'audio/wave'] },
+  { label: 'M4A', kind: 'audio', extensions: ['.m4a'], mimeTypes: ['audio/m4a', 'audio/x-m4a', 'audio/mp4'] },
+  { label: 'OGG', kind: 'audio', extensions: ['.ogg'], mimeTypes: ['audio/ogg'] },
+  { label: 'FLAC', kind: 'audio', extensions: ['.flac'], mimeTypes: ['audio/flac', 'audio/x-flac'] },
+  { label: 'MP4', kind: 'video', extensions: ['.mp4', '.m4v'], mimeTypes: ['video/mp4', 'video/x-m4v'] },
+  { label: 'MOV', kind: 'video', extensions: ['.mov'], mimeTypes: ['video/quicktime'] },
+  { label: 'WebM', kind: 'video', extensions: ['.webm'], mimeTypes: ['video/webm', 'audio/webm'] }
+]
+
+export const MAX_FILE_SIZE: Record<MediaKind, number> = {
+  audio: 100 * 1024 * 1024, // 100MB
+  video: 500 * 1024 * 1024 // 500MB（音声トラックのみ取り出して処理する）
+}
+
+export const SUPPORTED_MIME_TYPES = SUPPORTED_MEDIA_FORMATS.flatMap(format => format.mimeTypes)
+export const SUPPORTED_EXTENSIONS = SUPPORTED_MEDIA_FORMATS.flatMap(format => format.extensions)
+
+// <input type="file"> の accept 属性
+export const FILE_INPUT_ACCEPT = ['audio/*', 'video/*', ...SUPPORTED_EXTENSIONS].join(',')
+
+export function getFormatLabels(kind?: MediaKind): string {
+  return SUPPORTED_MEDIA_FORMATS
+    .filter(format => !kind || format.kind === kind)
+    .map(format => format.label)
+    .join(', ')
+}
+
+export function formatFileSizeLimit(kind: MediaKind): string {
+  return `${MAX_FILE_SIZE[kind] / 1024 / 1024}MB`
+}
+
+export function findMediaFormat(file: File): MediaFormat | undefined {
+  const fileName = file.name.toLowerCase()
+  return SUPPORTED_MEDIA_FORMATS.find(format => format.extensions.some(ext => fileName.endsWith(ext)))
+    ?? SUPPORTED_MEDIA_FORMATS.find(format => format.mimeTypes.includes(file.type))
+}
+
+export function isVideoFile(file: File): boolean {
+  return findMediaFormat(file)?.kind === 'video' || file.type.startsWith('video/')
+}
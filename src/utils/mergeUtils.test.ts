@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest'
+import type { SegmentTranscriptionResult, TranscriptionSegment, TranscriptionWord } from '@/utils/apiUtils'
+import { MergeUtils } from '@/utils/mergeUtils'
+
+function segment(start: number, end: number, text: string): TranscriptionSegment {
+  return {
+    id: 0,
+    seek: 0,
+    start,
+    end,
+    text,
+    tokens: [],
+    temperature: 0,
+    avg_logprob: -0.2,
+    compression_ratio: 1.2,
+    no_speech_prob: 0.01
+  }
+}
+
+// 空白区切りの文を、1語1秒の単語列にする
+function wordsOf(text: string, start: number): TranscriptionWord[] {
+  return text.split(' ').map((word, index) => ({ word, start: start + index, end: start + index + 1 }))
+}
+
+// segments・words の時刻はセグメント内の相対時刻
+function chunk(
+  index: number,
+  startTime: number,
+  endTime: number,
+  segments: TranscriptionSegment[],
+  words: TranscriptionWord[] = []
+): SegmentTranscriptionResult {
+  return {
+    index,
+    startTime,
+    endTime,
+    text: MergeUtils.joinTokens(segments.map(item => item.text)),
+    segments,
+    words,
+    language: 'en',
+    duration: endTime - startTime
+  }
+}
+
+describe('MergeUtils.mergeResults', () => {
+  it('オーバーラップ区間で一致した単語列を1回だけ残す', () => {
+    const first = chunk(0, 0, 10, [segment(0, 10, 'one two three four five six seven eight nine ten')], wordsOf('one two three four five six seven eight nine ten', 0))
+    // 8秒目から始まり、前のセグメントの末尾2語（8〜10秒）と重なる
+    const second = chunk(1, 8, 18, [segment(0, 4, 'nine ten eleven twelve')], wordsOf('nine ten eleven twelve', 0))
+
+    const merged = MergeUtils.mergeResults([first, second])
+
+    expect(merged.words.map(word => word.word)).toEqual(
+      ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve']
+    )
+    expect(merged.text).toBe('one two three four five six seven eight nine ten eleven twelve')
+  })
+
+  // 翻訳ではセグメントの時刻だけが返る。オーバーラップ区間は 8〜10秒（切り替え位置は9秒）
+  it('単語のタイムスタンプが無い場合、両端で途切れた発話は一方だけに残す', () => {
+    // 7.5〜10.5秒の発話を、前のセグメントは末尾で、次のセグメントは先頭で途切れて書き起こしている
+    const first = chunk(0, 0, 10, [
+      segment(0, 6, 'Hello there.'),
+      segment(7.5, 10, 'How are')
+    ])
+    const second = chunk(1, 8, 18, [
+      segment(0, 2.5, 'How are you doing'),
+      segment(2.5, 6, 'today?')
+    ])
+
+    const merged = MergeUtils.mergeResults([first, second])
+
+    expect(merged.text).toBe('Hello there. How are you doing today?')
+    expect(merged.segments.map(item => item.id)).toEqual([0, 1, 2])
+  })
+
+  it('単語のタイムスタンプが無い場合、切り替え位置より前に中央がある発話は前のセグメントから採用する', () => {
+    const first = chunk(0, 0, 10, [
+      segment(0, 6, 'Hello there.'),
+      segment(6.5, 9.5, 'How are you')
+    ])
+    const second = chunk(1, 8, 18, [
+      segment(0, 1.5, 'you'),
+      segment(2, 5, 'doing well?')
+    ])
+
+    const merged = MergeUtils.mergeResults([first, second])
+
+    expect(merged.text).toBe('Hello there. How are you doing well?')
+  })
+
+  it('失敗したセグメントを欠落区間として残す', () => {
+    const merged = MergeUtils.mergeResults(
+      [chunk(0, 0, 10, [segment(0, 5, 'hello')])],
+      [{ index: 1, start: 10, end: 20, code: 'NETWORK_ERROR' }]
+    )
+
+    expect(merged.gaps).toEqual([{ index: 1, start: 10, end: 20, code: 'NETWORK_ERROR' }])
+    expect(merged.duration).toBe(20)
+  })
+})
+
+describe('MergeUtils.spliceResults', () => {
+  it('欠落区間に再処理した結果を差し込み、その欠落区間を取り除く', () => {
+    const base = {
+      ...MergeUtils.mergeResults(
+        [
+          chunk(0, 0, 10, [segment(0, 3, 'one two three')], wordsOf('one two three', 0)),
+          chunk(2, 20, 30, [segment(0, 2, 'seven eight')], wordsOf('seven eight', 0))
+        ],
+        [{ index: 1, start: 10, end: 20, code: 'NETWORK_ERROR' }, { index: 3, start: 30, end: 40, code: 'RATE_LIMITED' }]
+      ),
+      metadata: { encodingProfile: 'whisper' as const }
+    }
+    const patch = chunk(1, 10, 20, [segment(0, 3, 'four five six')], wordsOf('four five six', 0))
+
+    const spliced = MergeUtils.spliceResults(base, [patch])
+
+    expect(spliced.text).toBe('one two three four five six seven eight')
+    expect(spliced.segments.map(item => [item.id, item.start])).toEqual([[0, 0], [1, 10], [2, 20]])
+    expect(spliced.words.map(word => word.start)).toEqual([0, 1, 2, 10, 11, 12, 20, 21])
+    expect(spliced.gaps).toEqual([{ index: 3, start: 30, end: 40, code: 'RATE_LIMITED' }])
+    expect(spliced.metadata).toEqual({ encodingProfile: 'whisper' })
+  })
+})
+
+describe('MergeUtils.replaceSegment', () => {
+  const base = MergeUtils.mergeResults([
+    chunk(0, 0, 30, [
+      segment(0, 3, 'one two three'),
+      segment(10, 12, 'four five'),
+      segment(20, 22, 'six seven')
+    ], [...wordsOf('one two three', 0), ...wordsOf('four five', 10), ...wordsOf('six seven', 20)])
+  ])
+
+  it('セグメントを置き換えて番号を振り直し、その区間の単語と本文を作り直す', () => {
+    // 9秒目から切り出した音声を処理し直した結果（時刻は9秒目からの相対時刻）
+    const replacement = chunk(0, 0, 5, [segment(1, 2, 'FOUR'), segment(2, 3, 'FIVE')], wordsOf('FOUR FIVE', 1))
+
+    const replaced = MergeUtils.replaceSegment(base, 1, replacement, 9)
+
+    expect(replaced.text).toBe('one two three FOUR FIVE six seven')
+    expect(replaced.segments.map(item => [item.id, item.text, item.start])).toEqual([
+      [0, 'one two three', 0],
+      [1, 'FOUR', 10],
+      [2, 'FIVE', 11],
+      [3, 'six seven', 20]
+    ])
+    expect(replaced.words.map(word => word.word)).toEqual(['one', 'two', 'three', 'FOUR', 'FIVE', 'six', 'seven'])
+  })
+
+  it('置き換えたセグメントの幻聴の印は外し、取り除いた記録は残す', () => {
+    const flagged = {
+      ...base,
+      flagged: [
+        { start: 10, end: 12, text: 'four five', reasons: ['no_speech' as const], removed: false },
+        { start: 25, end: 27, text: 'ご視聴ありがとうございました', reasons: ['blacklist' as const], removed: true }
+      ]
+    }
+
+    const replaced = MergeUtils.replaceSegment(flagged, 1, chunk(0, 0, 5, [segment(1, 3, 'FOUR FIVE')]), 9)
+
+    expect(replaced.flagged).toEqual([flagged.flagged[1]])
+  })
+})
+
+describe('MergeUtils.joinTokens', () => {
+  it('日本語はそのまま、英単語同士はスペースを挟んで連結する', () => {
+    expect(MergeUtils.joinTokens(['こんにちは', '世界'])).toBe('こんにちは世界')
+    expect(MergeUtils.joinTokens(['hello', 'world'])).toBe('hello world')
+    expect(MergeUtils.joinTokens(['今日は', 'Next.js', 'の話'])).toBe('今日はNext.jsの話')
+  })
+})
@@ -0,0 +1,378 @@
+import type {
+  SegmentTranscriptionResult,
+  TranscriptionGap,
+  TranscriptionResult,
+  TranscriptionSegment,
+  TranscriptionWord
+} from '@/utils/apiUtils'
+
+// オーバーラップ区間の前後に許容する時間のずれ（秒）
+const OVERLAP_SLACK = 0.5
+// 一致とみなす最小の連続単語数
+const MIN_MATCH_WORDS = 2
+
+// スペースを挟まずに連結する文字（日本語・中国語など）
+const CJK_PATTERN = /[\u3000-\u30ff\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/
+
+export class MergeUtils {
+  /**
+   * 各セグメントの結果を1つにまとめる。gaps には失敗したセグメントの区間を渡し、結果に欠落区間として残す。
+   */
+  static mergeResults(results: SegmentTranscriptionResult[], gaps: TranscriptionGap[] = []): TranscriptionResult {
+    const sortedGaps = [...gaps].sort((a, b) => a.start - b.start)
+    const gapFields = sortedGaps.length > 0 ? { gaps: sortedGaps } : {}
+    const taskFields = results[0]?.task ? { task: results[0].task } : {}
+
+    if (results.length === 0) {
+      return {
+        text: '',
+        segments: [],
+        words: [],
+        language: 'ja',
+        duration: Math.max(0, ...sortedGaps.map(gap => gap.end)),
+        ...taskFields,
+        ...gapFields
+      }
+    }
+
+    const sorted = [...results].sort((a, b) => a.index - b.index)
+    let mergedSegments: TranscriptionSegment[] = []
+    let mergedWords: TranscriptionWord[] = []
+    const fallbackTexts: string[] = []
+    let totalDuration = 0
+    let previous: SegmentTranscriptionResult | null = null
+
+    for (const result of sorted) {
+      const timeOffset = result.startTime
+      let segments = result.segments.map(segment => ({
+        ...segment,
+        start: segment.start + timeOffset,
+        end: segment.end + timeOffset
+      }))
+      let words = result.words.map(word => ({
+        ...word,
+        start: word.start + timeOffset,
+        end: word.end + timeOffset
+      }))
+
+      // 直前のセグメントとのオーバーラップ区間を1つにまとめる
+      if (previous && previous.endTime > result.startTime) {
+        const cut = this.findCut(mergedWords, words, result.startTime, previous.endTime)
+        mergedWords = mergedWords.slice(0, cut.previousWordCount)
+        words = words.slice(cut.currentWordStart)
+        // 翻訳などで単語のタイムスタンプが無い場合は、切り替え位置をまたぐセグメントを中央の位置でどちらかに振り分ける
+        const overlap = { start: result.startTime, end: previous.endTime }
+        mergedSegments = this.trimSegmentsBefore(mergedSegments, mergedWords, cut.time, previous.words.length > 0 ? null : overlap)
+        segments = this.trimSegmentsAfter(segments, words, cut.time, result.words.length > 0 ? null : overlap)
+      }
+
+      mergedSegments.push(...segments)
+      mergedWords.push(...words)
+      if (result.segments.length === 0 && result.text.trim()) {
+        fallbackTexts.push(result.text.trim())
+      }
+
+      totalDuration = Math.max(totalDuration, result.endTime)
+      previous = result
+    }
+
+    const segments = this.enforceMonotonic(mergedSegments).map((segment, id) => ({ ...segment, id }))
+    const words = this.enforceMonotonic(mergedWords)
+    const text = segments.length > 0
+      ? this.joinTokens(segments.map(segment => segment.text.trim()))
+      : this.joinTokens(fallbackTexts)
+
+    return {
+      text,
+      segments,
+      words,
+      language: sorted[0].language,
+      duration: Math.max(totalDuration, ...sortedGaps.map(gap => gap.end)),
+      ...taskFields,
+      ...gapFields
+    }
+  }
+
+  /**
+   * 統合済みの結果に、再処理したセグメントの結果を差し込む。
+   * 差し込む区間の前後で統合済みの結果を分け、通常の統合と同じようにオーバーラップ区間の重複を取り除く。
+   * 差し込んだセグメントの欠落区間は取り除き、それ以外の欠落区間、幻聴フィルターの記録とメタデータはそのまま残す。
+   */
+  static spliceResults(base: TranscriptionResult, patches: SegmentTranscriptionResult[]): TranscriptionResult {
+    if (patches.length === 0) {
+      return base
+    }
+
+    const sortedPatches = [...patches].sort((a, b) => a.startTime - b.startTime)
+    // 差し込む区間の中央を境に、統合済みの結果を区切る
+    const cuts = sortedPatches.map(patch => (patch.startTime + patch.endTime) / 2)
+    const pieces: { segments: TranscriptionSegment[]; words: TranscriptionWord[] }[] = cuts.concat(Infinity).map(() => ({
+      segments: [],
+      words: []
+    }))
+    const pieceIndex = (time: number) => {
+      const index = cuts.findIndex(cut => time < cut)
+      return index >= 0 ? index : cuts.length
+    }
+    base.segments.forEach(segment => pieces[pieceIndex(segment.start)].segments.push(segment))
+    base.words.forEach(word => pieces[pieceIndex(word.start)].words.push(word))
+
+    // 区切った結果と差し込む結果を時刻順に並べ、通常のセグメントと同じ形にして統合する
+    const ordered: Omit<SegmentTranscriptionResult, 'index'>[] = []
+    pieces.forEach((piece, index) => {
+      if (piece.segments.length > 0) {
+        // 単語数が多いと引数の展開で失敗するため、reduce で求める
+        const times = [...piece.segments, ...piece.words]
+        const startTime = times.reduce((min, item) => Math.min(min, item.start), Infinity)
+        const endTime = times.reduce((max, item) => Math.max(max, item.end), 0)
+        ordered.push({
+          text: this.joinTokens(piece.segments.map(segment => segment.text.trim())),
+          segments: piece.segments.map(segment => ({ ...segment, start: segment.start - startTime, end: segment.end - startTime })),
+          words: piece.words.map(word => ({ ...word, start: word.start - startTime, end: word.end - startTime })),
+          language: base.language,
+          duration: endTime - startTime,
+          startTime,
+          endTime
+        })
+      }
+      if (index < sortedPatches.length) {
+        ordered.push(sortedPatches[index])
+      }
+    })
+
+    const patchedIndexes = new Set(patches.map(patch => patch.index))
+    const merged = this.mergeResults(
+      ordered.map((result, index) => ({ ...result, index })),
+      (base.gaps ?? []).filter(gap => !patchedIndexes.has(gap.index))
+    )
+
+    return {
+      ...merged,
+      language: base.language,
+      duration: Math.max(base.duration, merged.duration),
+      ...(base.task ? { task: base.task } : {}),
+      ...(base.flagged ? { flagged: base.flagged } : {}),
+      ...(base.metadata ? { metadata: base.metadata } : {})
+    }
+  }
+
+  /**
+   * 統合済みの結果の1つのセグメントを、その区間だけ処理し直した結果で置き換える。
+   * replacement の時刻は startTime からの相対時刻。元のセグメントの区間に中央がある単語も置き換え、本文を作り直す。
+   */
+  static replaceSegment(
+    base: TranscriptionResult,
+    segmentIndex: number,
+    replacement: TranscriptionResult,
+    startTime: number
+  ): TranscriptionResult {
+    const target = base.segments[segmentIndex]
+    if (!target) {
+      return base
+    }
+
+    const inTarget = (item: { start: number; end: number }) => {
+      const middle = (item.start + item.end) / 2
+      return middle >= target.start && middle <= target.end
+    }
+    const shift = <T extends { start: number; end: number }>(item: T): T =>
+      ({ ...item, start: item.start + startTime, end: item.end + startTime })
+
+    let segments = replacement.segments
+      .filter(segment => segment.text.trim().length > 0)
+      .map(shift)
+    // セグメントの時刻を返さないサーバーの場合は、元のセグメントの区間に本文をまとめる
+    if (segments.length === 0 && replacement.text.trim()) {
+      segments = [{
+        ...target,
+        text: replacement.text.trim(),
+        tokens: [],
+        avg_logprob: 0,
+        compression_ratio: 0,
+        no_speech_prob: 0,
+        ...(replacement.model ? { model: replacement.model } : {})
+      }]
+    }
+
+    const allSegments = this.enforceMonotonic([
+      ...base.segments.slice(0, segmentIndex),
+      ...segments,
+      ...base.segments.slice(segmentIndex + 1)
+    ]).map((segment, id) => ({ ...segment, id }))
+    const words = [
+      ...base.words.filter(word => !inTarget(word)),
+      ...replacement.words.map(shift)
+    ].sort((a, b) => a.start - b.start)
+    // 置き換えたセグメントに付いていた幻聴の印は外す（取り除いたものの記録は残す）
+    const flagged = (base.flagged ?? []).filter(flag =>
+      flag.removed || flag.start !== target.start || flag.end !== target.end)
+
+    const result: TranscriptionResult = {
+      ...base,
+      text: this.joinTokens(allSegments.map(segment => segment.text.trim())),
+      segments: allSegments,
+      words
+    }
+    delete result.flagged
+    return flagged.length > 0 ? { ...result, flagged } : result
+  }
+
+  /**
+   * オーバーラップ区間内で前後の単語列が一致する箇所を探し、切り替え位置を決める。
+   * 一致が見つからない場合はオーバーラップ区間の中央で切り替える。
+   */
+  private static findCut(
+    previousWords: TranscriptionWord[],
+    currentWords: TranscriptionWord[],
+    overlapStart: number,
+    overlapEnd: number
+  ): { time: number; previousWordCount: number; currentWordStart: number } {
+    const tailStart = previousWords.findIndex(word => word.end > overlapStart - OVERLAP_SLACK)
+    const tail = tailStart >= 0 ? previousWords.slice(tailStart) : []
+    const headEnd = currentWords.findIndex(word => word.start >= overlapEnd + OVERLAP_SLACK)
+    const head = headEnd >= 0 ? currentWords.slice(0, headEnd) : currentWords
+
+    const match = this.findLongestCommonRun(
+      tail.map(word => this.normalizeWord(word.word)),
+      head.map(word => this.normalizeWord(word.word))
+    )
+
+    if (match && match.length >= MIN_MATCH_WORDS) {
+      // 一致した単語列の中央で前半を前のセグメント、後半を次のセグメントから採用する
+      const half = Math.floor(match.length / 2)
+      const currentWordStart = match.currentIndex + half
+      return {
+        time: currentWords[currentWordStart].start,
+        previousWordCount: tailStart + match.previousIndex + half,
+        currentWordStart
+      }
+    }
+
+    const time = (overlapStart + overlapEnd) / 2
+    const previousWordCount = previousWords.filter(word => word.start < time).length
+    const currentWordStart = currentWords.findIndex(word => word.start >= time)
+    return {
+      time,
+      previousWordCount,
+      currentWordStart: currentWordStart >= 0 ? currentWordStart : currentWords.length
+    }
+  }
+
+  private static findLongestCommonRun(
+    previous: string[],
+    current: string[]
+  ): { previousIndex: number; currentIndex: number; length: number } | null {
+    let best: { previousIndex: number; currentIndex: number; length: number } | null = null
+    let row = new Array<number>(current.length + 1).fill(0)
+
+    for (let i = 1; i <= previous.length; i++) {
+      const nextRow = new Array<number>(current.length + 1).fill(0)
+      for (let j = 1; j <= current.length; j++) {
+        if (previous[i - 1] && previous[i - 1] === current[j - 1]) {
+          nextRow[j] = row[j - 1] + 1
+          if (!best || nextRow[j] > best.length) {
+            best = { previousIndex: i - nextRow[j], currentIndex: j - nextRow[j], length: nextRow[j] }
+          }
+        }
+      }
+      row = nextRow
+    }
+
+    return best
+  }
+
+  /**
+   * 切り替え位置より後ろを前のセグメント群から取り除く。
+   * 単語のタイムスタンプが無い場合（overlap を渡す）は、セグメントを分けずに中央が切り替え位置より前のものを残す。
+   */
+  private static trimSegmentsBefore(
+    segments: TranscriptionSegment[],
+    keptWords: TranscriptionWord[],
+    cutTime: number,
+    overlap: { start: number; end: number } | null
+  ): TranscriptionSegment[] {
+    if (overlap) {
+      return segments.filter(segment => this.middleInOverlap(segment, overlap) < cutTime)
+    }
+    return segments
+      .filter(segment => segment.start < cutTime)
+      .map(segment => {
+        if (segment.end <= cutTime) return segment
+        return {
+          ...segment,
+          end: cutTime,
+          text: this.rebuildText(keptWords, segment.start, cutTime)
+        }
+      })
+      .filter(segment => segment.text.trim().length > 0)
+  }
+
+  // 切り替え位置より前を次のセグメント群から取り除く（overlap は trimSegmentsBefore と同じ）
+  private static trimSegmentsAfter(
+    segments: TranscriptionSegment[],
+    keptWords: TranscriptionWord[],
+    cutTime: number,
+    overlap: { start: number; end: number } | null
+  ): TranscriptionSegment[] {
+    if (overlap) {
+      return segments.filter(segment => this.middleInOverlap(segment, overlap) >= cutTime)
+    }
+    return segments
+      .filter(segment => segment.end > cutTime)
+      .map(segment => {
+        if (segment.start >= cutTime) return segment
+        return {
+          ...segment,
+          start: cutTime,
+          text: this.rebuildText(keptWords, cutTime, segment.end)
+        }
+      })
+      .filter(segment => segment.text.trim().length > 0)
+  }
+
+  /**
+   * オーバーラップ区間に収めたセグメントの中央。セグメントの端で途切れた発話でも、
+   * 前後のセグメントで同じ値になるため、どちらか一方だけに振り分けられる。
+   */
+  private static middleInOverlap(segment: TranscriptionSegment, overlap: { start: number; end: number }): number {
+    return (Math.max(segment.start, overlap.start) + Math.min(segment.end, overlap.end)) / 2
+  }
+
+  // 残った単語から、切り替え位置をまたぐセグメントのテキストを組み立て直す
+  private static rebuildText(
+    words: TranscriptionWord[],
+    start: number,
+    end: number
+  ): string {
+    const inRange = words.filter(word => word.start >= start && word.start < end)
+    return this.joinTokens(inRange.map(word => word.word.trim()))
+  }
+
+  private static enforceMonotonic<T extends { start: number; end: number }>(items: T[]): T[] {
+    let lastEnd = 0
+    return items.map(item => {
+      const start = Math.max(item.start, lastEnd)
+      const end = Math.max(item.end, start)
+      lastEnd = end
+      return start === item.start && end === item.end ? item : { ...item, start, end }
+    })
+  }
+
+  private static normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/[\s.,!?、。！？「」『』"']/g, '')
+  }
+
+  // 日本語などはそのまま、英単語同士はスペースを挟んで連結する
+  static joinTokens(tokens: string[]): string {
+    return tokens.filter(token => token.length > 0).reduce((joined, token) => {
+      if (!joined) return token
+      return this.needsSpace(joined, token) ? `${joined} ${token}` : joined + token
+    }, '')
+  }
+
+  // 2つの語の間にスペースを入れるか（どちらかの境界の文字が日本語などの場合は入れない）
+  static needsSpace(before: string, after: string): boolean {
+    if (!before || !after) return false
+    return !CJK_PATTERN.test(before[before.length - 1]) && !CJK_PATTERN.test(after[0])
+  }
+}
@@ -0,0 +1,81 @@
+import type { TranscriptionResult } from '@/utils/apiUtils'
+import { COMPRESSION_RATIO_THRESHOLD, LOGPROB_THRESHOLD } from '@/utils/confidenceUtils'
+
+// 品質の低いセグメントを、より精度の高いモデルで処理し直すための判定
+
+// repetition: 同じ語の繰り返し, low_logprob: 確信度が低い, empty_on_speech: 音があるのに文字が無い
+export type QualityIssue = 'repetition' | 'low_logprob' | 'empty_on_speech'
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssue, string> = {
+  repetition: '繰り返し',
+  low_logprob: '低い確信度',
+  empty_on_speech: '音声があるのに文字が無い'
+}
+
+// 画面で選べるモデル（空文字はサーバーの既定のモデル）
+export const MODEL_CHOICES: { id: string; label: string }[] = [
+  { id: '', label: 'サーバーの既定' },
+  { id: 'whisper-large-v3-turbo', label: 'whisper-large-v3-turbo（高速）' },
+  { id: 'whisper-large-v3', label: 'whisper-large-v3（高精度）' }
+]
+
+// 品質が低い場合に順に試すモデル（Groqの場合）
+export const DEFAULT_FALLBACK_MODELS = ['whisper-large-v3']
+
+// これより大きい音量（dBFS）の区間は無音ではないとみなす
+const SPEECH_LEVEL_DB = -40
+
+// カンマまたは改行で区切ったモデル名
+export function parseModelList(text: string): string[] {
+  return text.split(/[\n,]/).map(model => model.trim()).filter(model => model.length > 0)
+}
+
+/**
+ * 1つのセグメントの文字起こし結果を調べる。問題が無ければ空の配列。
+ * level（dBFS）が分からない場合は、文字が無いことは問題にしない。
+ */
+export function checkTranscriptionQuality(result: TranscriptionResult, level?: number): QualityIssue[] {
+  const issues: QualityIssue[] = []
+
+  if (result.segments.some(segment => segment.compression_ratio > COMPRESSION_RATIO_THRESHOLD)) {
+    issues.push('repetition')
+  }
+
+  // 長いセグメントほど重く数える
+  const weighted = result.segments.reduce((acc, segment) => {
+    const duration = Math.max(0.01, segment.end - segment.start)
+    return { sum: acc.sum + segment.avg_logprob * duration, duration: acc.duration + duration }
+  }, { sum: 0, duration: 0 })
+  if (weighted.duration > 0 && weighted.sum / weighted.duration < LOGPROB_THRESHOLD) {
+    issues.push('low_logprob')
+  }
+
+  if (!result.text.trim() && level !== undefined && level > SPEECH_LEVEL_DB) {
+    issues.push('empty_on_speech')
+  }
+
+  return issues
+}
+
+/**
+ * 結果と各セグメントに、処理したモデルを記録する（サーバーが返したモデル名を優先する）。
+ */
+export function withModel(result: TranscriptionResult, requestedModel?: string): TranscriptionResult {
+  const model = result.model ?? requestedModel
+  if (!model) return result
+  return { ...result, model, segments: result.segments.map(segment => ({ ...segment, model })) }
+}
+
+/**
+ * 最初のモデルと予備のモデルを、試す順に重複なく並べる。
+ * 最初のモデルが省略された場合（サーバーの既定）は undefined から始める。
+ */
+export function buildModelLadder(model: string | undefined, fallbackModels: string[] = []): (string | undefined)[] {
+  const ladder: (string | undefined)[] = [model || undefined]
+  for (const fallback of fallbackModels) {
+    if (!ladder.includes(fallback)) {
+      ladder.push(fallback)
+    }
+  }
+  return ladder
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { buildPrompt, parseGlossary } from '@/utils/promptUtils'
+
+describe('buildPrompt', () => {
+  it('指定したプロンプト、用語集、前のセグメントの末尾をこの順に並べる', () => {
+    expect(buildPrompt(['Mogiokoshi', 'Groq'], '前回の続きです。', '社内会議の議事録です。'))
+      .toBe('社内会議の議事録です。 Mogiokoshi、Groq。前回の続きです。')
+  })
+
+  it('用語集や文脈があっても、指定したプロンプトを残す', () => {
+    expect(buildPrompt([], undefined, '丁寧語で書き起こす')).toBe('丁寧語で書き起こす')
+    expect(buildPrompt(['用語'], undefined, '丁寧語で書き起こす')).toBe('丁寧語で書き起こす 用語。')
+  })
+
+  it('何も無い場合は undefined', () => {
+    expect(buildPrompt([], undefined, '  ')).toBeUndefined()
+  })
+
+  it('上限を超える場合は用語集の後ろの語から省く', () => {
+    const glossary = Array.from({ length: 100 }, (_, index) => `用語${index}`)
+    const prompt = buildPrompt(glossary, 'あ'.repeat(50), 'い'.repeat(60))!
+
+    expect(prompt.length).toBeLessThanOrEqual(200)
+    expect(prompt.startsWith('い'.repeat(60))).toBe(true)
+    expect(prompt.endsWith('あ'.repeat(50))).toBe(true)
+    expect(prompt).toContain('用語0、用語1')
+    expect(prompt).not.toContain('用語99')
+  })
+
+  it('指定したプロンプトだけで上限に達する場合は、それ以外を含めない', () => {
+    const prompt = buildPrompt(['用語'], '前のセグメント', 'う'.repeat(250))
+
+    expect(prompt).toBe('う'.repeat(200))
+  })
+})
+
+describe('parseGlossary', () => {
+  it('改行・カンマ・読点で区切り、重複を除く', () => {
+    expect(parseGlossary('Groq\nWhisper、Groq, 文字起こし\n\n')).toEqual(['Groq', 'Whisper', '文字起こし'])
+  })
+})
@@ -0,0 +1,63 @@
+// 文字起こしのプロンプト（用語集と前のセグメントの文脈）を組み立てる
+
+const GLOSSARY_STORAGE_KEY = 'mogiokoshi:glossary'
+
+// Whisperのプロンプトは224トークンまでのため、文字数で余裕を持って制限する
+const MAX_PROMPT_CHARS = 200
+// 前のセグメントから引き継ぐ末尾の文字数
+const PREVIOUS_TEXT_CHARS = 80
+
+// 用語集は1行に1語（カンマや読点で区切っても良い）
+export function parseGlossary(text: string): string[] {
+  const terms = text
+    .split(/[\n,、，]/)
+    .map(term => term.trim())
+    .filter(term => term.length > 0)
+  return Array.from(new Set(terms))
+}
+
+// 用語集はプロジェクトをまたいで使い回せるよう、ブラウザに保存する
+export function saveGlossary(text: string) {
+  localStorage.setItem(GLOSSARY_STORAGE_KEY, text)
+}
+
+export function loadGlossary(): string {
+  try {
+    return localStorage.getItem(GLOSSARY_STORAGE_KEY) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * 利用者が指定したプロンプト、用語集、前のセグメントの末尾を組み合わせてプロンプトを作る。
+ * Whisperはプロンプトの末尾ほど強く参照するため、前のセグメントの文脈を後ろに置く。
+ * 上限を超える場合は、指定したプロンプト、前のセグメントの文脈、用語集の順に優先して残す。
+ */
+export function buildPrompt(glossary: string[], previousText?: string, basePrompt?: string): string | undefined {
+  const base = basePrompt?.trim().slice(0, MAX_PROMPT_CHARS) ?? ''
+  let remaining = MAX_PROMPT_CHARS - (base ? base.length + 1 : 0)
+
+  const tailChars = Math.min(PREVIOUS_TEXT_CHARS, remaining)
+  const tail = previousText && tailChars > 0 ? takeTail(previousText.trim(), tailChars) : ''
+  remaining -= tail.length
+
+  // 残りに収まらない場合は、用語集の後ろの語から省く
+  const terms: string[] = []
+  for (const term of glossary) {
+    if ([...terms, term].join('、').length + 1 > remaining) break
+    terms.push(term)
+  }
+
+  const context = [terms.length > 0 ? `${terms.join('、')}。` : '', tail].join('')
+  const prompt = [base, context].filter(part => part.length > 0).join(' ').trim()
+  return prompt.length > 0 ? prompt : undefined
+}
+
+// 文の途中から始まらないよう、できるだけ句読点や空白の後ろから切り出す
+function takeTail(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text
+  const tail = text.slice(-maxChars)
+  const boundary = tail.search(/[。．.!?！？\s]/)
+  return boundary >= 0 && boundary < tail.length - 1 ? tail.slice(boundary + 1).trim() : tail
+}
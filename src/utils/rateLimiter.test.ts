@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { RateLimiter, parseResetDuration, parseRetryAfter } from '@/utils/rateLimiter'
+
+// 待ち時間を進めた後、acquire が終わっているか
+async function isSettled(promise: Promise<unknown>): Promise<boolean> {
+  let settled = false
+  promise.then(() => { settled = true }, () => { settled = true })
+  await vi.advanceTimersByTimeAsync(0)
+  return settled
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('上限まではすぐに送り、使い切ったら回復するまで待つ', async () => {
+    const limiter = new RateLimiter(60)
+    for (let i = 0; i < 60; i++) {
+      await limiter.acquire()
+    }
+
+    const next = limiter.acquire()
+    expect(await isSettled(next)).toBe(false)
+    await vi.advanceTimersByTimeAsync(999)
+    expect(await isSettled(next)).toBe(false)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(await isSettled(next)).toBe(true)
+  })
+
+  it('ヘッダーの残量とリセットまでの時間から回復速度を決める', async () => {
+    const limiter = new RateLimiter(60)
+    limiter.update(new Headers({
+      'x-ratelimit-limit-requests': '10',
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-reset-requests': '2s'
+    }))
+
+    // 2秒で10件回復するため、1件目は200ミリ秒後
+    const next = limiter.acquire()
+    await vi.advanceTimersByTimeAsync(199)
+    expect(await isSettled(next)).toBe(false)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(await isSettled(next)).toBe(true)
+  })
+
+  it('音声の秒数の残量が足りない場合も待つ', async () => {
+    const limiter = new RateLimiter(60)
+    limiter.update(new Headers({
+      'x-ratelimit-limit-audio-seconds': '7200',
+      'x-ratelimit-remaining-audio-seconds': '30',
+      'x-ratelimit-reset-audio-seconds': '1h'
+    }))
+
+    await limiter.acquire({ audioSeconds: 30 })
+    const next = limiter.acquire({ audioSeconds: 60 })
+    // 1時間で7170秒分回復するため、60秒分は約30秒後
+    await vi.advanceTimersByTimeAsync(30000)
+    expect(await isSettled(next)).toBe(false)
+    await vi.advanceTimersByTimeAsync(200)
+    expect(await isSettled(next)).toBe(true)
+  })
+
+  it('Retry-After の間はすべての送信を止める', async () => {
+    const limiter = new RateLimiter(60)
+    limiter.update(new Headers({ 'retry-after': '3' }))
+
+    const next = limiter.acquire()
+    await vi.advanceTimersByTimeAsync(2999)
+    expect(await isSettled(next)).toBe(false)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(await isSettled(next)).toBe(true)
+  })
+
+  it('中断した待ちは AbortError で終わり、後続の送信を止めない', async () => {
+    const limiter = new RateLimiter(1)
+    await limiter.acquire()
+
+    const controller = new AbortController()
+    const aborted = limiter.acquire({}, controller.signal)
+    const next = limiter.acquire()
+    controller.abort()
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' })
+    await vi.advanceTimersByTimeAsync(60000)
+    expect(await isSettled(next)).toBe(true)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('秒数とHTTP日付をミリ秒にする', () => {
+    vi.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') })
+    expect(parseRetryAfter('2.5')).toBe(2500)
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT')).toBe(10000)
+    expect(parseRetryAfter('soon')).toBeUndefined()
+    vi.useRealTimers()
+  })
+})
+
+describe('parseResetDuration', () => {
+  it('Groqの期間表記をミリ秒にする', () => {
+    expect(parseResetDuration('2m59.56s')).toBeCloseTo(179560)
+    expect(parseResetDuration('120ms')).toBe(120)
+    expect(parseResetDuration('1h2m')).toBe(3720000)
+    expect(parseResetDuration('7.66')).toBeCloseTo(7660)
+    expect(parseResetDuration('2 minutes')).toBeUndefined()
+  })
+})
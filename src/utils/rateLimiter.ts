@@ -0,0 +1,201 @@
+import { delay, throwIfAborted } from '@/utils/abortUtils'
+
+// 上流APIのレート制限ヘッダー（例: x-ratelimit-remaining-requests）
+export const RATE_LIMIT_HEADER_PREFIX = 'x-ratelimit-'
+
+// 初期値（Groqの無料枠に合わせる）。実際の上限はレスポンスのヘッダーで更新する
+const DEFAULT_REQUESTS_PER_MINUTE = 20
+
+interface BucketState {
+  capacity: number
+  tokens: number
+  refillPerMs: number
+  updatedAt: number
+}
+
+export interface RateLimitCost {
+  requests?: number
+  audioSeconds?: number
+}
+
+/**
+ * レスポンスヘッダーからレート制限に関係するものだけを取り出す（ルートからクライアントへ転送する）。
+ */
+export function pickRateLimitHeaders(headers: Headers): Record<string, string> {
+  const picked: Record<string, string> = {}
+  headers.forEach((value, name) => {
+    const key = name.toLowerCase()
+    if (key === 'retry-after' || key.startsWith(RATE_LIMIT_HEADER_PREFIX)) {
+      picked[key] = value
+    }
+  })
+  return picked
+}
+
+/**
+ * Retry-After（秒数またはHTTP日付）をミリ秒にする。
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * x-ratelimit-reset-* の期間表記（"2m59.56s"、"7.66s"、"120ms"、"1h2m"）をミリ秒にする。
+ */
+export function parseResetDuration(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+
+  const trimmed = value.trim()
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return parseFloat(trimmed) * 1000
+  }
+
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 }
+  let total = 0
+  let matched = ''
+  for (const match of trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    total += parseFloat(match[1]) * units[match[2]]
+    matched += match[0]
+  }
+  return matched.length > 0 && matched === trimmed ? total : undefined
+}
+
+/**
+ * リクエスト数と音声の秒数の2つのトークンバケットで送信を制御する。
+ * 並列で処理する全セグメントで1つのインスタンスを共有し、レスポンスのヘッダーに合わせて残量と回復速度を更新する。
+ */
+export class RateLimiter {
+  private readonly buckets: Record<keyof RateLimitCost, BucketState>
+  private pausedUntil = 0
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(requestsPerMinute: number = DEFAULT_REQUESTS_PER_MINUTE) {
+    const now = Date.now()
+    this.buckets = {
+      requests: {
+        capacity: requestsPerMinute,
+        tokens: requestsPerMinute,
+        refillPerMs: requestsPerMinute / 60000,
+        updatedAt: now
+      },
+      // 音声の秒数の上限はヘッダーで知らされるまで制限しない
+      audioSeconds: {
+        capacity: Infinity,
+        tokens: Infinity,
+        refillPerMs: 0,
+        updatedAt: now
+      }
+    }
+  }
+
+  /**
+   * 送信できるだけのトークンが貯まるまで待ち、消費する。
+   * 待っている間に届いたヘッダーも反映するよう、呼び出し順に1つずつ処理する。
+   */
+  acquire(cost: RateLimitCost = {}, signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.waitForTokens(cost, signal))
+    // 中断されたリクエストで後続が止まらないようにする
+    this.queue = turn.catch(() => undefined)
+    return turn
+  }
+
+  /**
+   * 429などで指定された時間、すべての送信を止める。
+   */
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+    // 再開直後は1件だけ送り、そのレスポンスのヘッダーで残量を確かめる
+    this.buckets.requests.tokens = Math.min(this.buckets.requests.tokens, 1)
+    this.buckets.requests.updatedAt = this.pausedUntil
+  }
+
+  /**
+   * x-ratelimit-{limit,remaining,reset}-{requests,audio-seconds} と retry-after を反映する。
+   */
+  update(headers: Headers) {
+    this.updateBucket('requests', headers, 'requests')
+    this.updateBucket('audioSeconds', headers, 'audio-seconds')
+
+    const retryAfter = parseRetryAfter(headers.get('retry-after'))
+    if (retryAfter !== undefined) {
+      this.pause(retryAfter)
+    }
+  }
+
+  private updateBucket(name: keyof RateLimitCost, headers: Headers, suffix: string) {
+    const limit = Number(headers.get(`${RATE_LIMIT_HEADER_PREFIX}limit-${suffix}`))
+    const remaining = Number(headers.get(`${RATE_LIMIT_HEADER_PREFIX}remaining-${suffix}`))
+    if (!headers.has(`${RATE_LIMIT_HEADER_PREFIX}remaining-${suffix}`) || !Number.isFinite(remaining)) {
+      return
+    }
+
+    const bucket = this.buckets[name]
+    const capacity = Number.isFinite(limit) && limit > 0
+      ? limit
+      : Math.max(remaining, bucket.capacity === Infinity ? 0 : bucket.capacity)
+    const reset = parseResetDuration(headers.get(`${RATE_LIMIT_HEADER_PREFIX}reset-${suffix}`))
+
+    bucket.capacity = capacity
+    bucket.tokens = Math.min(remaining, capacity)
+    bucket.updatedAt = Math.max(Date.now(), bucket.updatedAt)
+    // リセットまでに上限まで回復するとみなす
+    if (reset !== undefined && reset > 0 && remaining < capacity) {
+      bucket.refillPerMs = (capacity - remaining) / reset
+    } else if (bucket.refillPerMs === 0) {
+      bucket.refillPerMs = capacity / 60000
+    }
+  }
+
+  private async waitForTokens(cost: RateLimitCost, signal?: AbortSignal) {
+    const requests = cost.requests ?? 1
+    const audioSeconds = cost.audioSeconds ?? 0
+
+    while (true) {
+      throwIfAborted(signal)
+      const now = Date.now()
+      if (now < this.pausedUntil) {
+        console.log(`Rate limiting: paused for ${this.pausedUntil - now}ms`)
+        await delay(this.pausedUntil - now, signal)
+        continue
+      }
+
+      const wait = Math.max(
+        this.timeUntilAvailable('requests', requests, now),
+        this.timeUntilAvailable('audioSeconds', audioSeconds, now)
+      )
+      if (wait <= 0) {
+        this.buckets.requests.tokens -= requests
+        this.buckets.audioSeconds.tokens -= audioSeconds
+        return
+      }
+
+      console.log(`Rate limiting: waiting ${Math.ceil(wait)}ms before next request`)
+      await delay(wait, signal)
+    }
+  }
+
+  // 経過時間分を回復させ、必要な量が貯まるまでの時間を返す
+  private timeUntilAvailable(name: keyof RateLimitCost, amount: number, now: number): number {
+    const bucket = this.buckets[name]
+    if (bucket.tokens === Infinity || amount <= 0) return 0
+
+    if (now > bucket.updatedAt) {
+      bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.refillPerMs)
+      bucket.updatedAt = now
+    }
+
+    // 上限より大きい要求は、満タンになれば通す
+    const needed = Math.min(amount, bucket.capacity)
+    if (bucket.tokens >= needed) return 0
+    if (bucket.refillPerMs <= 0) return 1000
+    return (needed - bucket.tokens) / bucket.refillPerMs
+  }
+}
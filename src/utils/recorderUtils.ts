@@ -0,0 +1,214 @@
+import {
+  DEFAULT_ENCODING_PROFILE,
+  DEFAULT_SEGMENT_CONTAINER,
+  SegmentContainer,
+  encodeSegment,
+  encodeWav,
+  getEncodingProfile,
+  preparePcm
+} from '@/utils/audioEncoding'
+import { findQuietestSample } from '@/utils/audioSplitter'
+import type { AudioSegment } from '@/utils/audioUtils'
+
+export interface RecorderOptions {
+  segmentDuration: number // チャンク長（秒）
+  silenceSearchWindow?: number // 区切りに使う無音を探す範囲（目標位置の前後、秒）
+  container?: SegmentContainer
+}
+
+interface WindowWithWebkitAudioContext extends Window {
+  webkitAudioContext?: typeof AudioContext
+}
+
+// マイク入力をモノラルにしてメインスレッドへ送るAudioWorklet
+const RECORDER_WORKLET_SOURCE = `
+class RecorderProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const input = inputs[0]
+    if (input && input.length > 0) {
+      const mono = new Float32Array(input[0].length)
+      for (const channel of input) {
+        for (let i = 0; i < channel.length; i++) {
+          mono[i] += channel[i] / input.length
+        }
+      }
+      this.port.postMessage(mono, [mono.buffer])
+    }
+    return true
+  }
+}
+registerProcessor('recorder-processor', RecorderProcessor)
+`
+
+/**
+ * マイクから録音し、segmentDuration ごとに無音位置で区切ったチャンクを送信用にエンコードして返す。
+ * 録音全体は16kHzモノラルで保持し、停止時にWAVファイルとして取り出せる。
+ */
+export class MicrophoneRecorder {
+  private audioContext: AudioContext | null = null
+  private stream: MediaStream | null = null
+  private workletNode: AudioWorkletNode | null = null
+  private pending: Float32Array[] = []
+  private pendingLength = 0
+  private emittedSamples = 0
+  private chunkIndex = 0
+  private recorded: Float32Array[] = []
+  private readonly profile = getEncodingProfile(DEFAULT_ENCODING_PROFILE)
+
+  constructor(
+    private readonly options: RecorderOptions,
+    private readonly onChunk: (segment: AudioSegment) => void
+  ) {}
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined'
+      && !!navigator.mediaDevices?.getUserMedia
+      && typeof AudioWorkletNode !== 'undefined'
+  }
+
+  get isRecording(): boolean {
+    return this.stream !== null
+  }
+
+  // 録音済みの長さ（秒）
+  get elapsed(): number {
+    if (!this.audioContext) return 0
+    return (this.emittedSamples + this.pendingLength) / this.audioContext.sampleRate
+  }
+
+  async start(): Promise<void> {
+    if (!MicrophoneRecorder.isSupported()) {
+      throw new Error('お使いのブラウザはマイク録音に対応していません')
+    }
+
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true }
+      })
+    } catch (error) {
+      console.error('マイクの取得に失敗:', error)
+      throw new Error('マイクを使用できません。ブラウザのマイクへのアクセス許可を確認してください。')
+    }
+
+    const AudioContextClass = window.AudioContext || (window as WindowWithWebkitAudioContext).webkitAudioContext
+    this.audioContext = new AudioContextClass!()
+
+    const moduleUrl = URL.createObjectURL(new Blob([RECORDER_WORKLET_SOURCE], { type: 'application/javascript' }))
+    try {
+      await this.audioContext.audioWorklet.addModule(moduleUrl)
+    } finally {
+      URL.revokeObjectURL(moduleUrl)
+    }
+
+    const source = this.audioContext.createMediaStreamSource(this.stream)
+    this.workletNode = new AudioWorkletNode(this.audioContext, 'recorder-processor')
+    this.workletNode.port.onmessage = (event: MessageEvent<Float32Array>) => this.handleSamples(event.data)
+
+    // 出力は使わないが、処理を継続させるため無音でdestinationへ接続する
+    const mute = this.audioContext.createGain()
+    mute.gain.value = 0
+    source.connect(this.workletNode)
+    this.workletNode.connect(mute)
+    mute.connect(this.audioContext.destination)
+
+    console.log('録音開始:', { sampleRate: this.audioContext.sampleRate })
+  }
+
+  /**
+   * 録音を停止し、残りをチャンクとして送り出してから録音全体のWAVファイルを返す。
+   */
+  async stop(): Promise<File> {
+    if (!this.audioContext) {
+      throw new Error('録音が開始されていません')
+    }
+
+    this.workletNode?.port.close()
+    this.workletNode?.disconnect()
+    this.stream?.getTracks().forEach(track => track.stop())
+    this.stream = null
+
+    if (this.pendingLength > 0) {
+      this.emitChunk(this.pendingLength)
+    }
+
+    const file = this.buildRecordingFile()
+    await this.audioContext.close()
+    this.audioContext = null
+    this.workletNode = null
+    return file
+  }
+
+  private handleSamples(samples: Float32Array) {
+    if (!this.audioContext) return
+    this.pending.push(samples)
+    this.pendingLength += samples.length
+
+    const sampleRate = this.audioContext.sampleRate
+    const targetSamples = Math.floor(this.options.segmentDuration * sampleRate)
+    const windowSamples = Math.floor((this.options.silenceSearchWindow ?? 2) * sampleRate)
+
+    // 目標位置の後ろまで溜まったら、前後で最も静かな位置で区切る
+    if (this.pendingLength >= targetSamples + windowSamples) {
+      const buffer = this.flattenPending()
+      const cut = findQuietestSample(
+        [buffer],
+        Math.max(sampleRate, targetSamples - windowSamples),
+        targetSamples + windowSamples,
+        targetSamples,
+        sampleRate
+      )
+      this.emitChunk(cut)
+    }
+  }
+
+  private emitChunk(length: number) {
+    const sampleRate = this.audioContext!.sampleRate
+    const buffer = this.flattenPending()
+    const chunk = buffer.slice(0, length)
+    const rest = buffer.slice(length)
+    this.pending = rest.length > 0 ? [rest] : []
+    this.pendingLength = rest.length
+
+    const pcm = preparePcm({ channels: [chunk], sampleRate }, this.profile)
+    this.recorded.push(pcm.channels[0])
+
+    const startTime = this.emittedSamples / sampleRate
+    this.emittedSamples += length
+    const endTime = this.emittedSamples / sampleRate
+
+    this.onChunk({
+      blob: encodeSegment(pcm, 0, pcm.channels[0].length, this.profile, this.options.container ?? DEFAULT_SEGMENT_CONTAINER),
+      startTime,
+      endTime,
+      duration: endTime - startTime,
+      index: this.chunkIndex++
+    })
+  }
+
+  private flattenPending(): Float32Array {
+    if (this.pending.length === 1) return this.pending[0]
+    const buffer = new Float32Array(this.pendingLength)
+    let offset = 0
+    for (const samples of this.pending) {
+      buffer.set(samples, offset)
+      offset += samples.length
+    }
+    this.pending = [buffer]
+    return buffer
+  }
+
+  private buildRecordingFile(): File {
+    const length = this.recorded.reduce((sum, samples) => sum + samples.length, 0)
+    const samples = new Float32Array(length)
+    let offset = 0
+    for (const chunk of this.recorded) {
+      samples.set(chunk, offset)
+      offset += chunk.length
+    }
+
+    const sampleRate = this.profile.sampleRate ?? this.audioContext!.sampleRate
+    const blob = encodeWav({ channels: [samples], sampleRate }, 0, length, this.profile.bitDepth)
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5)
+    return new File([blob], `recording_${timestamp}.wav`, { type: 'audio/wav' })
+  }
+}
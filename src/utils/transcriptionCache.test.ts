@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { createCacheKey } from '@/utils/transcriptionCache'
+
+const audio = new Blob([new Uint8Array([1, 2, 3, 4])], { type: 'audio/flac' })
+
+describe('createCacheKey', () => {
+  it('同じ音声・同じ条件なら同じキーになる', async () => {
+    const options = { provider: 'groq', model: 'whisper-large-v3-turbo', language: 'ja' }
+
+    expect(await createCacheKey(audio, options)).toBe(await createCacheKey(audio, { ...options }))
+    expect(await createCacheKey(audio, options)).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('プロバイダーやモデルが変わるとキーも変わる', async () => {
+    const base = await createCacheKey(audio, { provider: 'groq', model: 'whisper-large-v3-turbo', language: 'ja' })
+
+    expect(await createCacheKey(audio, { provider: 'openai', model: 'whisper-large-v3-turbo', language: 'ja' })).not.toBe(base)
+    expect(await createCacheKey(audio, { provider: 'groq', model: 'whisper-large-v3', language: 'ja' })).not.toBe(base)
+    expect(await createCacheKey(audio, { provider: 'groq', model: 'whisper-large-v3-turbo', language: 'en' })).not.toBe(base)
+    expect(await createCacheKey(audio, { provider: 'groq', model: 'whisper-large-v3-turbo', language: 'ja', task: 'translate' })).not.toBe(base)
+  })
+})
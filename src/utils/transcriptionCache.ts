@@ -0,0 +1,126 @@
+import type { TranscriptionResult, TranscriptionTask } from '@/utils/apiUtils'
+
+// 同じ音声を同じ条件で文字起こしした結果を再利用するためのキャッシュ
+
+const DB_NAME = 'mogiokoshi'
+const DB_VERSION = 1
+const STORE_NAME = 'transcriptions'
+// 古い結果はモデルの更新などで変わりうるため、一定期間で捨てる
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000
+
+// 結果を左右する条件（キーに含める）
+export interface CacheKeyOptions {
+  provider?: string // サーバーのプロバイダー
+  model?: string // 実際に使うモデル名（サーバーの既定のモデルの場合もその名前）
+  language?: string
+  prompt?: string
+  task?: TranscriptionTask
+}
+
+interface CacheEntry {
+  key: string
+  result: TranscriptionResult
+  savedAt: number
+}
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 音声データのSHA-256と、プロバイダー・モデル・言語・プロンプト・タスクからキャッシュのキーを作る。
+ * ブラウザとサーバーの両方で使う（どちらも crypto.subtle がある）。
+ */
+export async function createCacheKey(audio: Blob, options: CacheKeyOptions): Promise<string> {
+  const audioHash = await sha256Hex(await audio.arrayBuffer())
+  const conditions = JSON.stringify({
+    audio: audioHash,
+    provider: options.provider ?? '',
+    model: options.model ?? '',
+    language: options.language ?? '',
+    prompt: options.prompt ?? '',
+    task: options.task ?? 'transcribe'
+  })
+  return sha256Hex(new TextEncoder().encode(conditions))
+}
+
+/**
+ * ブラウザの IndexedDB に保存するキャッシュ。
+ * IndexedDB が使えない環境（プライベートブラウズなど）では何もせず、常にキャッシュなしとして扱う。
+ */
+export class TranscriptionCache {
+  private db: Promise<IDBDatabase | null> | null = null
+
+  /**
+   * キーを作る。crypto.subtle はHTTPSかlocalhostでしか使えないため、使えない場合は undefined（キャッシュしない）。
+   */
+  async keyFor(audio: Blob, options: CacheKeyOptions): Promise<string | undefined> {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      return undefined
+    }
+    return createCacheKey(audio, options)
+  }
+
+  async get(key: string): Promise<TranscriptionResult | undefined> {
+    const entry = await this.request<CacheEntry | undefined>('readonly', store => store.get(key))
+    if (!entry) return undefined
+
+    if (Date.now() - entry.savedAt > MAX_AGE_MS) {
+      await this.request('readwrite', store => store.delete(key))
+      return undefined
+    }
+    return entry.result
+  }
+
+  async set(key: string, result: TranscriptionResult): Promise<void> {
+    const entry: CacheEntry = { key, result, savedAt: Date.now() }
+    await this.request('readwrite', store => store.put(entry))
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear())
+  }
+
+  // キャッシュの失敗で文字起こしを止めないよう、エラーはログに残して undefined を返す
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T | undefined> {
+    const db = await this.open()
+    if (!db) return undefined
+
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+        request.onsuccess = () => resolve(request.result as T)
+        request.onerror = () => reject(request.error)
+      })
+    } catch (error) {
+      console.warn('文字起こしキャッシュの読み書きに失敗:', error)
+      return undefined
+    }
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null)
+          return
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          console.warn('文字起こしキャッシュを開けません:', request.error)
+          resolve(null)
+        }
+      })
+    }
+    return this.db
+  }
+}
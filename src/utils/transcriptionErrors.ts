@@ -0,0 +1,121 @@
+// 文字起こしAPIのエラー。ルートとクライアントで同じ形を使い、再試行の判断と表示するメッセージはコードで決める
+
+export type TranscriptionErrorCode =
+  | 'AUTH_INVALID' // APIキーが無効
+  | 'NOT_CONFIGURED' // サーバーにプロバイダーやAPIキーが設定されていない
+  | 'RATE_LIMITED' // レート制限
+  | 'PAYLOAD_TOO_LARGE' // 音声ファイルが大きすぎる
+  | 'INVALID_REQUEST' // リクエストの内容が不正（ファイルが無い、形式が読めないなど）
+  | 'UPSTREAM_UNAVAILABLE' // 文字起こしサーバーに接続できない・一時的に停止している
+  | 'UPSTREAM_ERROR' // 文字起こしサーバーのその他のエラー
+  | 'NETWORK_ERROR' // ブラウザからルートへの通信エラー
+  | 'ABORTED' // クライアントが中断した
+  | 'INTERNAL' // ルート内部のエラー
+
+// ルートが返すエラーの本体（レスポンスは { error: TranscriptionErrorBody }）
+export interface TranscriptionErrorBody {
+  code: TranscriptionErrorCode
+  retryable: boolean
+  retryAfterMs?: number
+  message: string // 開発者向けの詳細（画面にはコードから作ったメッセージを表示する）
+}
+
+const RETRYABLE_CODES: TranscriptionErrorCode[] = [
+  'RATE_LIMITED',
+  'UPSTREAM_UNAVAILABLE',
+  'UPSTREAM_ERROR',
+  'NETWORK_ERROR',
+  'INTERNAL'
+]
+
+const ERROR_MESSAGES: Record<TranscriptionErrorCode, string> = {
+  AUTH_INVALID: 'APIキーが無効です。サーバーの環境変数でAPIキーを正しく設定してください。',
+  NOT_CONFIGURED: '文字起こしサービスが設定されていません。サーバーの環境変数を確認してください。',
+  RATE_LIMITED: 'レート制限に達しました。しばらく待ってから再試行してください。',
+  PAYLOAD_TOO_LARGE: 'ファイルサイズが大きすぎます。25MB以下のファイルをご利用ください。',
+  INVALID_REQUEST: '音声データを処理できませんでした。ファイルの形式を確認してください。',
+  UPSTREAM_UNAVAILABLE: '文字起こしサーバーに接続できません。しばらくしてから再試行してください。',
+  UPSTREAM_ERROR: '文字起こしサーバーでエラーが発生しました。しばらくしてから再試行してください。',
+  NETWORK_ERROR: 'サーバーとの通信に失敗しました。ネットワーク接続を確認してください。',
+  ABORTED: '処理を中断しました。',
+  INTERNAL: 'サーバーで予期しないエラーが発生しました。しばらくしてから再試行してください。'
+}
+
+export function isRetryableCode(code: TranscriptionErrorCode): boolean {
+  return RETRYABLE_CODES.includes(code)
+}
+
+// 上流やルートのHTTPステータスからエラーコードを決める
+export function codeFromStatus(status: number): TranscriptionErrorCode {
+  if (status === 401 || status === 403) return 'AUTH_INVALID'
+  if (status === 413) return 'PAYLOAD_TOO_LARGE'
+  if (status === 429) return 'RATE_LIMITED'
+  if (status === 499) return 'ABORTED'
+  if (status === 502 || status === 503 || status === 504) return 'UPSTREAM_UNAVAILABLE'
+  if (status >= 500) return 'UPSTREAM_ERROR'
+  return 'INVALID_REQUEST'
+}
+
+// 画面に表示するメッセージ
+export function getErrorMessage(code: TranscriptionErrorCode): string {
+  return ERROR_MESSAGES[code]
+}
+
+export class TranscriptionError extends Error {
+  readonly code: TranscriptionErrorCode
+  readonly retryable: boolean
+  readonly retryAfterMs?: number
+  readonly detail: string
+
+  constructor(body: TranscriptionErrorBody) {
+    super(getErrorMessage(body.code))
+    this.name = 'TranscriptionError'
+    this.code = body.code
+    this.retryable = body.retryable
+    this.retryAfterMs = body.retryAfterMs
+    this.detail = body.message
+  }
+
+  static fromCode(code: TranscriptionErrorCode, detail: string = getErrorMessage(code)): TranscriptionError {
+    return new TranscriptionError({ code, retryable: isRetryableCode(code), message: detail })
+  }
+
+  /**
+   * ルートのエラーレスポンスから作る。エラー本体が無い場合（古いルートやプロキシのエラー）はステータスで判断する。
+   */
+  static fromResponse(status: number, data: { error?: Partial<TranscriptionErrorBody> | string }): TranscriptionError {
+    const body = typeof data.error === 'object' ? data.error : undefined
+    const code = body?.code ?? codeFromStatus(status)
+    return new TranscriptionError({
+      code,
+      retryable: body?.retryable ?? isRetryableCode(code),
+      retryAfterMs: body?.retryAfterMs,
+      message: body?.message ?? (typeof data.error === 'string' ? data.error : `HTTP ${status}`)
+    })
+  }
+
+  toJSON(): TranscriptionErrorBody {
+    return {
+      code: this.code,
+      retryable: this.retryable,
+      retryAfterMs: this.retryAfterMs,
+      message: this.detail
+    }
+  }
+}
+
+// 予期しないエラーも含めて TranscriptionError にそろえる
+export function toTranscriptionError(error: unknown): TranscriptionError {
+  if (error instanceof TranscriptionError) {
+    return error
+  }
+  return TranscriptionError.fromCode('INTERNAL', error instanceof Error ? error.message : String(error))
+}
+
+// 再試行して良いエラーか（中断や TranscriptionError 以外の予期しないエラーは再試行する）
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TranscriptionError) {
+    return error.retryable
+  }
+  return !(error instanceof Error && error.name === 'AbortError')
+}
@@ -0,0 +1,34 @@
+export interface WaveformPeaks {
+  min: Float32Array
+  max: Float32Array
+  duration: number
+}
+
+/**
+ * 波形表示用に、音声を bucketCount 個の区間に分けて各区間の最小値・最大値を求める。
+ * 複数チャンネルの場合はすべてのチャンネルを通した値を使う。
+ */
+export function computePeaks(buffer: AudioBuffer, bucketCount: number): WaveformPeaks {
+  const min = new Float32Array(bucketCount)
+  const max = new Float32Array(bucketCount)
+  const samplesPerBucket = buffer.length / bucketCount
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const channelData = buffer.getChannelData(channel)
+    for (let bucket = 0; bucket < bucketCount; bucket++) {
+      const from = Math.floor(bucket * samplesPerBucket)
+      const to = Math.min(buffer.length, Math.max(from + 1, Math.floor((bucket + 1) * samplesPerBucket)))
+      let bucketMin = min[bucket]
+      let bucketMax = max[bucket]
+      for (let i = from; i < to; i++) {
+        const value = channelData[i]
+        if (value < bucketMin) bucketMin = value
+        if (value > bucketMax) bucketMax = value
+      }
+      min[bucket] = bucketMin
+      max[bucket] = bucketMax
+    }
+  }
+
+  return { min, max, duration: buffer.duration }
+}
@@ -0,0 +1,72 @@
+import type { PcmData } from '@/utils/audioEncoding'
+import type { AudioSplitOptions } from '@/utils/audioUtils'
+import {
+  PlanWorkerMessage,
+  SplitWorkerCommand,
+  SplitWorkerMessage,
+  planSegmentRanges,
+  prepareSplitPcm,
+  preparedPcmKey,
+  splitPreparedPcm
+} from '@/utils/audioSplitter'
+
+let source: PcmData | null = null
+let prepared: { key: string; pcm: PcmData } | null = null
+let pending: Iterator<SplitWorkerMessage> | null = null
+
+// 送信形式と前処理が変わらなければ、変換済みのデータを境界の計算と分割で使い回す
+function preparedFor(options: AudioSplitOptions): PcmData {
+  if (!source) {
+    throw new Error('音声が読み込まれていません')
+  }
+  const key = preparedPcmKey(options)
+  if (prepared?.key !== key) {
+    prepared = { key, pcm: prepareSplitPcm(source, options) }
+  }
+  return prepared.pcm
+}
+
+// 音声の変換・分割・エンコードと、波形の境界線に使う区間の計算をメインスレッドの外で実行する
+self.onmessage = (event: MessageEvent<SplitWorkerCommand>) => {
+  const command = event.data
+
+  if (command.type === 'load') {
+    source = { channels: command.channels, sampleRate: command.sampleRate }
+    prepared = null
+    pending = null
+    return
+  }
+
+  if (command.type === 'plan') {
+    let message: PlanWorkerMessage
+    try {
+      message = { type: 'ranges', ranges: planSegmentRanges(preparedFor(command.options), command.options) }
+    } catch (error) {
+      message = { type: 'error', message: error instanceof Error ? error.message : String(error) }
+    }
+    command.port.postMessage(message)
+    command.port.close()
+    return
+  }
+
+  try {
+    if (command.type === 'start') {
+      pending = splitPreparedPcm(() => preparedFor(command.options), command.options)
+      return
+    }
+
+    if (!pending) {
+      throw new Error('分割処理が開始されていません')
+    }
+
+    const next = pending.next()
+    const message: SplitWorkerMessage = next.done ? { type: 'done' } : next.value
+    self.postMessage(message)
+  } catch (error) {
+    const message: SplitWorkerMessage = {
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error)
+    }
+    self.postMessage(message)
+  }
+}